@@ -1,2 +1,24 @@
 export { Consumer } from "./lib/consumer.js";
+export { ConsumerGroup } from "./lib/consumerGroup.js";
+export { Router } from "./lib/router.js";
+export { Producer } from "./lib/producer.js";
+export {
+  exponentialRetryDelay,
+  linearRetryDelay,
+  decorrelatedJitterRetryDelay,
+} from "./lib/retryDelay.js";
+export { attachToProcess } from "./lib/signals.js";
+export { MetricsCollector, formatPrometheusMetrics } from "./lib/metrics.js";
+export { RateLimiter, getRateLimiter } from "./utils/rateLimiter.js";
+export { parseTraceparent } from "./lib/tracing.js";
+export {
+  HealthServer,
+  type HealthCheck,
+  type HealthServerOptions,
+} from "./lib/healthServer.js";
+export {
+  QueuesEmulator,
+  type QueuesEmulatorOptions,
+  type EmulatedMessage,
+} from "./lib/emulator.js";
 export * from "./types.js";
@@ -0,0 +1,109 @@
+import type { Message, MessageRetry } from "../types.js";
+
+export interface AcknowledgementBufferOptions {
+  /**
+   * Sends a set of acknowledgements and retries to Cloudflare.
+   */
+  flushHandler(acks: Message[], retries: MessageRetry[]): Promise<unknown>;
+  /**
+   * The number of acknowledgements and retries that triggers an immediate flush.
+   */
+  maxSize: number;
+  /**
+   * The longest time (in milliseconds) an acknowledgement waits in the buffer.
+   */
+  flushIntervalMs: number;
+}
+
+/**
+ * Collects acknowledgements and retries from concurrent message handlers so that
+ * they can be sent to Cloudflare in as few `messages/ack` requests as possible.
+ */
+export class AcknowledgementBuffer {
+  private flushHandler: AcknowledgementBufferOptions["flushHandler"];
+  private maxSize: number;
+  public readonly flushIntervalMs: number;
+  private flushTimeoutId?: NodeJS.Timeout;
+  private acks: Message[] = [];
+  private retries: MessageRetry[] = [];
+  private waiting: (() => void)[] = [];
+
+  /**
+   * Create a new acknowledgement buffer
+   * @param options The options for the buffer
+   */
+  constructor(options: AcknowledgementBufferOptions) {
+    this.flushHandler = options.flushHandler;
+    this.maxSize = options.maxSize;
+    this.flushIntervalMs = options.flushIntervalMs;
+  }
+
+  /**
+   * The number of acknowledgements and retries waiting to be sent.
+   */
+  public get size(): number {
+    return this.acks.length + this.retries.length;
+  }
+
+  /**
+   * Add acknowledgements and retries to the buffer.
+   * @param acks The message(s) to acknowledge
+   * @param retries The message(s) to retry
+   * @returns A promise that resolves once the request containing them has settled
+   */
+  public add(acks: Message[], retries: MessageRetry[]): Promise<void> {
+    this.acks.push(...acks);
+    this.retries.push(...retries);
+
+    const flushed = new Promise<void>((resolve): void => {
+      this.waiting.push(resolve);
+    });
+
+    if (this.size >= this.maxSize) {
+      this.flushInBackground();
+    } else if (!this.flushTimeoutId) {
+      this.flushTimeoutId = setTimeout(
+        () => this.flushInBackground(),
+        this.flushIntervalMs,
+      );
+    }
+
+    return flushed;
+  }
+
+  /**
+   * Flush without waiting, any failures are expected to be reported by the flush handler.
+   */
+  private flushInBackground(): void {
+    this.flush().catch(() => undefined);
+  }
+
+  /**
+   * Send everything that is currently in the buffer, in chunks of `maxSize`.
+   */
+  public async flush(): Promise<void> {
+    if (this.flushTimeoutId) {
+      clearTimeout(this.flushTimeoutId);
+      this.flushTimeoutId = undefined;
+    }
+
+    const acks = this.acks;
+    const retries = this.retries;
+    const waiting = this.waiting;
+
+    this.acks = [];
+    this.retries = [];
+    this.waiting = [];
+
+    try {
+      while (acks.length > 0 || retries.length > 0) {
+        const ackChunk = acks.splice(0, this.maxSize);
+        const retryChunk = retries.splice(0, this.maxSize - ackChunk.length);
+
+        await this.flushHandler(ackChunk, retryChunk);
+      }
+    } finally {
+      waiting.forEach((resolve): void => resolve());
+    }
+  }
+}
@@ -1,58 +1,147 @@
+import type { RequestPriority, RequestRetry, RetryPolicy } from "../types.js";
 import { ProviderError } from "../utils/errors.js";
+import type { RateLimiter } from "../utils/rateLimiter.js";
 import { throwErrorIfResponseNotOk } from "./fetch.js";
+import { CredentialsCache } from "./credentials.js";
 
 const CLOUDFLARE_HOST = "https://api.cloudflare.com/client/v4";
-const MAX_RETRIES = 5;
 
-export function getCredentials() {
-  const QUEUES_API_TOKEN = process.env.QUEUES_API_TOKEN;
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 5,
+  baseDelayMs: 100,
+  maxDelayMs: 10000,
+  jitter: "full",
+  retryableStatusCodes: [429, 502, 503, 504],
+};
+
+/**
+ * Calculate how long to wait before the next attempt.
+ * @param attempt The number of the attempt that failed
+ * @param policy The retry policy to apply
+ */
+export function calculateDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, attempt),
+  );
 
-  if (!QUEUES_API_TOKEN) {
-    throw new Error(
-      "Missing Cloudflare credentials, please set a QUEUES_API_TOKEN in the environment variables.",
-    );
+  switch (policy.jitter) {
+    case "full":
+      return Math.random() * delay;
+    case "equal":
+      return delay / 2 + Math.random() * (delay / 2);
+    default:
+      return delay;
   }
-
-  return {
-    QUEUES_API_TOKEN,
-  };
 }
 
-function calculateDelay(attempt: number): number {
-  return Math.pow(2, attempt) * 100 + Math.random() * 100;
+/**
+ * Convert the value of a `Retry-After` header to milliseconds.
+ * @param retryAfter Either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(retryAfter?: string): number | undefined {
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
-function shouldRetry(
+/**
+ * Determine why a failed request should be retried.
+ * @param error The error that the request failed with
+ * @param policy The retry policy to apply
+ * @param idempotent If the request can be sent again without repeating its effect,
+ * network errors are only retried when it can as the request may have been received
+ * @returns The reason for the retry, or `undefined` if it should not be retried
+ */
+function getRetryReason(
   error: unknown,
-  attempt: number,
-  maxRetries: number,
-): boolean {
-  return (
-    error instanceof ProviderError &&
-    error.message.includes("429") &&
-    attempt < maxRetries
-  );
+  policy: Required<RetryPolicy>,
+  idempotent: boolean,
+): string | undefined {
+  if (!(error instanceof ProviderError)) {
+    return undefined;
+  }
+
+  if (
+    (idempotent && error.code === "NetworkError") ||
+    policy.retryableStatusCodes.includes(error.status)
+  ) {
+    return error.message;
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait before the next attempt.
+ * @param delayMs How long to wait
+ * @param signal Stops waiting, with the reason of the signal, when it is aborted
+ */
+function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject): void => {
+    function onAbort(): void {
+      clearTimeout(timeoutId);
+      reject(signal.reason);
+    }
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 async function exponentialBackoff<T>(
   fn: () => Promise<T>,
-  maxRetries: number,
+  policy: Required<RetryPolicy>,
+  idempotent: boolean,
+  onRetry?: (retry: Omit<RequestRetry, "path">) => void,
+  signal?: AbortSignal,
 ): Promise<T> {
-  let attempt = 0;
-  while (attempt < maxRetries) {
+  for (let attempt = 1; ; attempt++) {
     try {
       return await fn();
     } catch (error) {
-      if (shouldRetry(error, attempt, maxRetries)) {
-        attempt++;
-        const delay = calculateDelay(attempt);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      } else {
+      const reason = getRetryReason(error, policy, idempotent);
+
+      if (!reason || signal?.aborted) {
         throw error;
       }
+
+      if (attempt >= policy.maxAttempts) {
+        const maxRetriesError = new ProviderError("Max retries reached");
+        maxRetriesError.status = error.status;
+        throw maxRetriesError;
+      }
+
+      const delayMs = Math.min(
+        policy.maxDelayMs,
+        parseRetryAfter(error.retryAfter) ?? calculateDelay(attempt, policy),
+      );
+
+      onRetry?.({ attempt, delayMs, reason });
+      await sleep(delayMs, signal);
     }
   }
-  throw new ProviderError("Max retries reached");
 }
 
 export async function queuesClient<T = unknown>({
@@ -62,6 +151,13 @@ export async function queuesClient<T = unknown>({
   accountId,
   queueId,
   signal,
+  credentials = new CredentialsCache(),
+  baseUrl = CLOUDFLARE_HOST,
+  retryPolicy,
+  onRetry,
+  rateLimiter,
+  priority = "high",
+  idempotent = method === "GET",
 }: {
   path: string;
   method: string;
@@ -69,29 +165,52 @@ export async function queuesClient<T = unknown>({
   accountId: string;
   queueId: string;
   signal?: AbortSignal;
+  credentials?: CredentialsCache;
+  baseUrl?: string;
+  retryPolicy?: RetryPolicy;
+  onRetry?: (retry: RequestRetry) => void;
+  rateLimiter?: RateLimiter;
+  priority?: RequestPriority;
+  idempotent?: boolean;
 }): Promise<T> {
-  const { QUEUES_API_TOKEN } = getCredentials();
-
-  const url = `${CLOUDFLARE_HOST}/accounts/${accountId}/queues/${queueId}/${path}`;
-  const options = {
-    method,
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${QUEUES_API_TOKEN}`,
-    },
-    body: JSON.stringify(body),
-    signal,
-  };
+  const url = `${baseUrl}/accounts/${accountId}/queues/${queueId}/${path}`;
+
+  async function request(): Promise<Response> {
+    const token = await credentials.getToken();
+    await rateLimiter?.acquire(priority, signal);
+
+    try {
+      return await fetch(url, {
+        method,
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (err) {
+      if (err?.name === "AbortError") {
+        throw err;
+      }
+
+      const error = new ProviderError(`Network error: ${err.message}`);
+      error.code = "NetworkError";
+      throw error;
+    }
+  }
 
   async function fetchWithBackoff() {
-    const response = await fetch(url, options);
+    let response = await request();
 
-    if (!response) {
-      throw new ProviderError("No response from Cloudflare Queues API");
+    if (response?.status === 401 && credentials.isRefreshable) {
+      // The token may have been rotated, ask the provider for a new one and try again
+      credentials.invalidate();
+      response = await request();
     }
 
-    if (response.status === 429) {
-      throw new ProviderError("429 Too Many Requests");
+    if (!response) {
+      throw new ProviderError("No response from Cloudflare Queues API");
     }
 
     throwErrorIfResponseNotOk(response);
@@ -101,5 +220,11 @@ export async function queuesClient<T = unknown>({
     return data;
   }
 
-  return exponentialBackoff(fetchWithBackoff, MAX_RETRIES);
+  return exponentialBackoff(
+    fetchWithBackoff,
+    { ...DEFAULT_RETRY_POLICY, ...retryPolicy },
+    idempotent,
+    (retry) => onRetry?.({ ...retry, path }),
+    signal,
+  );
 }
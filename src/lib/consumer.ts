@@ -1,37 +1,114 @@
 import { TypedEventEmitter } from "../utils/emitter.js";
 import type {
+  AdaptivePollingOptions,
+  BatchResult,
   ConsumerOptions,
+  DeadLetterHandler,
   Message,
+  MessageRetry,
   PullMessagesResponse,
   AckMessageResponse,
+  InFlightSummary,
+  InvalidMessageAction,
+  MessageValidator,
+  RetryDelayStrategy,
+  RetryPolicy,
+  SignalHandlingOptions,
   UpdatableOptions,
   StopOptions,
+  HealthReport,
+  HealthThresholds,
+  Span,
+  SpanContext,
+  SpanOptions,
+  TracingOptions,
+  Middleware,
+  MiddlewareContext,
 } from "../types.js";
 import {
+  assertAcknowledgementFlushInterval,
   assertOptions,
   hasMessages,
   validateOption,
 } from "../utils/validation.js";
 import { queuesClient } from "./cloudflare.js";
-import { logger } from "../utils/logger.js";
+import { CredentialsCache } from "./credentials.js";
+import { AcknowledgementBuffer } from "./ackBuffer.js";
+import {
+  ConcurrencyLimiter,
+  SHARED_CONCURRENCY_LIMITER,
+  type SharedConcurrencyOptions,
+} from "../utils/concurrency.js";
+import { CircuitBreaker } from "../utils/circuitBreaker.js";
+import { type RateLimiter, sharedRateLimiter } from "../utils/rateLimiter.js";
+import { MetricsCollector } from "./metrics.js";
+import { SPAN_KIND, extractSpanContext, withSpan } from "./tracing.js";
+import { decodeBody, decodeMessage } from "./decode.js";
+import { validateMessage } from "./validate.js";
+import {
+  createMiddlewareContext,
+  isBatchResult,
+  runMiddleware,
+} from "./middleware.js";
+import { createDeadLetterHandler } from "./deadLetter.js";
+import { capRetryDelay } from "./retryDelay.js";
+import { attachToProcess, detachFromProcess } from "./signals.js";
+import { StructuredLogger } from "../utils/logger.js";
 import {
   toProviderError,
   ProviderError,
   toStandardError,
   toTimeoutError,
   TimeoutError,
+  ValidationError,
+  isFatalError,
+  CircuitOpenError,
 } from "../utils/errors.js";
 
+const DEFAULT_RETRY_MESSAGE_DELAY = 10;
+
+/**
+ * How a set of messages should be settled with Cloudflare, and the events to emit once
+ * they have been.
+ */
+interface MessageOutcomes {
+  acks: Message[];
+  retries: MessageRetry[];
+  deadLettered: [Message, Error][];
+  processed: Message[];
+}
+
+/**
+ * Create an empty set of outcomes.
+ */
+function createOutcomes(): MessageOutcomes {
+  return { acks: [], retries: [], deadLettered: [], processed: [] };
+}
+
 /**
  * [Usage](https://bbc.github.io/cloudflare-queue-consumer/index.html#usage)
  */
-export class Consumer extends TypedEventEmitter {
+export class Consumer<TBody = unknown> extends TypedEventEmitter {
   private accountId: string;
   private queueId: string;
-  private handleMessage: (message: Message) => Promise<Message | void>;
-  private handleMessageBatch: (message: Message[]) => Promise<Message[] | void>;
+  private credentials: CredentialsCache;
+  private apiBaseUrl?: string;
+  private retryPolicy?: RetryPolicy;
+  private handleMessage: (
+    message: Message<TBody>,
+  ) => Promise<Message<TBody> | BatchResult<TBody> | void>;
+  private handleMessageBatch: (
+    message: Message<TBody>[],
+  ) => Promise<Message<TBody>[] | BatchResult<TBody> | void>;
+  private decodeBody: (message: Message<string>) => TBody | Promise<TBody>;
+  private validate?: MessageValidator<TBody>;
+  private invalidMessageAction: InvalidMessageAction;
+  private maxAttempts?: number;
+  private deadLetterHandler?: DeadLetterHandler;
   private preReceiveMessageCallback?: () => Promise<void>;
   private postReceiveMessageCallback?: () => Promise<void>;
+  private onFatalError?: ConsumerOptions["onFatalError"];
+  private tracing?: TracingOptions;
   private batchSize: number;
   private visibilityTimeoutMs: number;
   private retryMessagesOnError: boolean;
@@ -40,38 +117,169 @@ export class Consumer extends TypedEventEmitter {
   private stopped = true;
   private isPolling = false;
   private handleMessageTimeout: number;
-  private alwaysAcknowledge: number;
-  private retryMessageDelay: number;
+  private alwaysAcknowledge: boolean;
+  private retryMessageDelay: number | RetryDelayStrategy;
   private shouldDeleteMessages: boolean;
+  private acknowledgementBuffer?: AcknowledgementBuffer;
+  private concurrencyLimiter?: ConcurrencyLimiter;
+  private circuitBreaker?: CircuitBreaker;
+  private rateLimiter?: RateLimiter;
+  private adaptivePolling?: Required<AdaptivePollingOptions>;
+  private pollingIntervalMs: number;
+  private consecutiveEmptyPolls = 0;
+  private healthThresholds: Required<HealthThresholds>;
+  private startedAt?: Date;
+  private lastPollAt?: Date;
+  private lastAckAt?: Date;
+  private consecutivePollErrors = 0;
+  private consecutiveAckErrors = 0;
+  private inFlightMessages = 0;
+  private forceStop?: () => void;
+  private handleSignals?: SignalHandlingOptions;
+  private inFlightPolls = new Set<Promise<unknown>>();
+  private inFlightHandlers = new Set<Promise<unknown>>();
+  private inFlightAcknowledgements = new Set<Promise<unknown>>();
+  private middleware: Middleware<TBody>[] = [];
   public abortController: AbortController;
+  public readonly metrics?: MetricsCollector;
 
   /**
    * Create a new consumer
    * @param options The options for the consumer
    */
-  constructor(options) {
-    super();
+  constructor(options: ConsumerOptions<TBody>) {
+    super(
+      new StructuredLogger({
+        logger: options?.logger,
+        fields: { queueId: options?.queueId },
+        redactMessageBodies: options?.redactMessageBodies,
+      }),
+    );
     assertOptions(options);
     this.accountId = options.accountId;
     this.queueId = options.queueId;
+    this.credentials = new CredentialsCache(options.credentials);
+    this.apiBaseUrl = options.apiBaseUrl;
+    this.retryPolicy = options.retryPolicy;
     this.handleMessage = options.handleMessage;
     this.handleMessageBatch = options.handleMessageBatch;
+    this.decodeBody =
+      options.decodeBody ?? (decodeBody as (message: Message<string>) => TBody);
     this.preReceiveMessageCallback = options.preReceiveMessageCallback;
     this.postReceiveMessageCallback = options.postReceiveMessageCallback;
+    this.onFatalError = options.onFatalError;
+    this.tracing = options.tracing;
     this.batchSize = options.batchSize ?? 10;
     this.visibilityTimeoutMs = options.visibilityTimeoutMs ?? 1000;
     this.retryMessagesOnError = options.retryMessagesOnError || false;
+    this.validate = options.validate;
+    this.invalidMessageAction = options.invalidMessageAction ?? "emit";
+    this.maxAttempts = options.maxAttempts;
+
+    if (options.deadLetter) {
+      this.deadLetterHandler = createDeadLetterHandler(options.deadLetter, {
+        accountId: options.accountId,
+        credentials: options.credentials,
+        apiBaseUrl: options.apiBaseUrl,
+        retryPolicy: options.retryPolicy,
+        rateLimit: options.rateLimit,
+      });
+    }
     this.pollingWaitTimeMs = options.pollingWaitTimeMs ?? 1000;
+    this.pollingIntervalMs = this.pollingWaitTimeMs;
+
+    if (options.adaptivePolling) {
+      const adaptivePolling =
+        options.adaptivePolling === true ? {} : options.adaptivePolling;
+
+      this.adaptivePolling = {
+        maxPollingWaitTimeMs: adaptivePolling.maxPollingWaitTimeMs ?? 30000,
+        backoffMultiplier: adaptivePolling.backoffMultiplier ?? 2,
+        jitter: adaptivePolling.jitter ?? 0.2,
+      };
+    }
+    this.healthThresholds = {
+      maxPollAgeMs: options.healthThresholds?.maxPollAgeMs ?? 300000,
+      maxConsecutivePollErrors:
+        options.healthThresholds?.maxConsecutivePollErrors ?? 5,
+      maxConsecutiveAckErrors:
+        options.healthThresholds?.maxConsecutiveAckErrors ?? 5,
+    };
     this.handleMessageTimeout = options.handleMessageTimeout;
     this.alwaysAcknowledge = options.alwaysAcknowledge ?? false;
-    this.retryMessageDelay = options.retryMessageDelay ?? 10;
+    this.retryMessageDelay =
+      options.retryMessageDelay ?? DEFAULT_RETRY_MESSAGE_DELAY;
     this.shouldDeleteMessages = options.shouldDeleteMessages ?? true;
+
+    if (options.handleSignals) {
+      this.handleSignals =
+        options.handleSignals === true ? {} : options.handleSignals;
+    }
+
+    const { [SHARED_CONCURRENCY_LIMITER]: sharedLimiter } =
+      options as SharedConcurrencyOptions;
+
+    if (sharedLimiter) {
+      this.concurrencyLimiter = sharedLimiter;
+    } else if (options.concurrency) {
+      this.concurrencyLimiter = new ConcurrencyLimiter(options.concurrency);
+    }
+
+    if (options.circuitBreaker) {
+      const circuitBreaker =
+        options.circuitBreaker === true ? {} : options.circuitBreaker;
+
+      this.circuitBreaker = new CircuitBreaker({
+        failureThreshold: circuitBreaker.failureThreshold ?? 5,
+        resetTimeoutMs: circuitBreaker.resetTimeoutMs ?? 30000,
+        onStateChange: (state, error) => {
+          if (state === "open") {
+            this.emit("circuit_opened", error);
+          } else if (state === "half_open") {
+            this.emit("circuit_half_open");
+          } else {
+            this.emit("circuit_closed");
+          }
+        },
+      });
+    }
+
+    if (options.rateLimit) {
+      this.rateLimiter = sharedRateLimiter(
+        options.accountId,
+        options.rateLimit === true ? {} : options.rateLimit,
+      );
+    }
+
+    if (options.metrics) {
+      this.metrics = new MetricsCollector(
+        options.queueId,
+        options.metrics === true ? {} : options.metrics,
+        this.rateLimiter,
+      );
+    }
+
+    if (options.batchAcknowledgements) {
+      this.acknowledgementBuffer = new AcknowledgementBuffer({
+        flushHandler: (acks, retries) =>
+          this.track(
+            this.inFlightAcknowledgements,
+            this.acknowledgeMessage(acks, retries),
+          ),
+        maxSize: options.acknowledgementBatchSize ?? 100,
+        flushIntervalMs:
+          options.acknowledgementFlushIntervalMs ??
+          Math.min(1000, Math.floor(this.visibilityTimeoutMs / 2)),
+      });
+    }
   }
 
   /**
    * Creates a new consumer.
    */
-  public static create(options: ConsumerOptions): Consumer {
+  public static create<TBody = unknown>(
+    options: ConsumerOptions<TBody>,
+  ): Consumer<TBody> {
     return new Consumer(options);
   }
 
@@ -84,8 +292,14 @@ export class Consumer extends TypedEventEmitter {
     }
     // Create a new abort controller each time the consumer is started
     this.abortController = new AbortController();
-    logger.debug("starting");
+    this.logger.debug("starting");
     this.stopped = false;
+    this.startedAt = new Date();
+
+    if (this.handleSignals) {
+      attachToProcess(this, this.handleSignals);
+    }
+
     this.emit("started");
     this.poll();
   }
@@ -103,14 +317,27 @@ export class Consumer extends TypedEventEmitter {
 
   /**
    * Stop polling the queue.
+   *
+   * When `waitForInFlight` is set, the returned promise resolves once every running
+   * handler and acknowledgement request has settled, or `timeoutMs` has passed. Calling
+   * `stop({ abort: true })` while the consumer is draining stops it straight away.
    */
-  public stop(options?: StopOptions): void {
+  public async stop(options?: StopOptions): Promise<void> {
     if (this.stopped) {
-      logger.debug("already_stopped");
+      if (options?.abort && this.forceStop) {
+        const stopped = new Promise<void>((resolve): void => {
+          this.once("stopped", () => resolve());
+        });
+        this.forceStop();
+
+        return stopped;
+      }
+
+      this.logger.debug("already_stopped");
       return;
     }
 
-    logger.debug("stopping");
+    this.logger.debug("stopping");
     this.stopped = true;
 
     if (this.pollingTimeoutId) {
@@ -118,13 +345,141 @@ export class Consumer extends TypedEventEmitter {
       this.pollingTimeoutId = undefined;
     }
 
-    if (options?.abort) {
-      logger.debug("aborting");
+    let abort = options?.abort;
+
+    if (options?.waitForInFlight) {
+      this.emit("draining", this.inFlightSummary);
+
+      const forced = new Promise<void>((resolve): void => {
+        this.forceStop = resolve;
+      });
+      abort = (await this.drain(options.timeoutMs, forced)) || abort;
+      this.forceStop = undefined;
+    }
+
+    if (this.acknowledgementBuffer?.size > 0) {
+      this.logger.debug("flushing_acknowledgements");
+      const flushed = this.track(
+        this.inFlightPolls,
+        this.acknowledgementBuffer.flush(),
+      );
+
+      // Aborting would cancel the request that flushes the buffer
+      if (abort) {
+        await flushed;
+      }
+    }
+
+    const abandoned = this.inFlightSummary;
+
+    if (abort) {
+      this.logger.debug("aborting");
       this.abortController.abort();
       this.emit("aborted");
     }
 
-    this.emit("stopped");
+    if (this.handleSignals) {
+      detachFromProcess(this);
+    }
+
+    this.emit("stopped", abandoned);
+  }
+
+  /**
+   * The number of handlers and acknowledgement requests that are still running.
+   */
+  private get inFlightSummary(): InFlightSummary {
+    return {
+      handlers: this.inFlightHandlers.size,
+      acknowledgements:
+        this.inFlightAcknowledgements.size +
+        (this.acknowledgementBuffer?.size ?? 0),
+    };
+  }
+
+  /**
+   * Count messages as in flight until the task that is processing them settles.
+   * @param count The number of messages, which have already been added to the count
+   * @param task The task that is processing them
+   */
+  private async countInFlight(
+    count: number,
+    task: Promise<void>,
+  ): Promise<void> {
+    try {
+      await task;
+    } finally {
+      this.inFlightMessages -= count;
+    }
+  }
+
+  /**
+   * Keep track of a task until it settles.
+   * @param tasks The set of tasks to add the task to
+   * @param task The task to track
+   */
+  private track<T>(tasks: Set<Promise<unknown>>, task: Promise<T>): Promise<T> {
+    tasks.add(task);
+    task.then(
+      () => tasks.delete(task),
+      () => tasks.delete(task),
+    );
+
+    return task;
+  }
+
+  /**
+   * Wait for the in-flight polls, handlers and acknowledgements to settle.
+   * @param timeoutMs The longest time to wait for, in milliseconds
+   * @param forced Resolves if the consumer should stop waiting straight away
+   * @returns `true` if the drain was forced to stop
+   */
+  private async drain(
+    timeoutMs: number | undefined,
+    forced: Promise<void>,
+  ): Promise<boolean> {
+    let timeoutId: NodeJS.Timeout | undefined;
+    let wasForced = false;
+
+    const deadline = new Promise<void>((resolve): void => {
+      if (timeoutMs !== undefined) {
+        timeoutId = setTimeout(resolve, timeoutMs);
+      }
+    });
+    const interrupted = Promise.race([
+      deadline,
+      forced.then(() => {
+        wasForced = true;
+      }),
+    ]).then(() => true);
+
+    try {
+      for (;;) {
+        // Handlers that finish while draining add their acknowledgements to the buffer
+        this.flushAcknowledgements();
+
+        const tasks = [
+          ...this.inFlightPolls,
+          ...this.inFlightHandlers,
+          ...this.inFlightAcknowledgements,
+        ];
+
+        if (tasks.length === 0) {
+          return false;
+        }
+
+        const stopWaiting = await Promise.race([
+          Promise.allSettled(tasks).then(() => false),
+          interrupted,
+        ]);
+
+        if (stopWaiting) {
+          return wasForced;
+        }
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
   }
 
   /**
@@ -134,10 +489,73 @@ export class Consumer extends TypedEventEmitter {
   public get status(): {
     isRunning: boolean;
     isPolling: boolean;
+    pollingIntervalMs: number;
   } {
     return {
       isRunning: !this.stopped,
       isPolling: this.isPolling,
+      pollingIntervalMs: this.pollingIntervalMs,
+    };
+  }
+
+  /**
+   * Report on the health of the consumer, with a verdict based on the
+   * `healthThresholds` option.
+   */
+  public health(): HealthReport {
+    const { maxPollAgeMs, maxConsecutivePollErrors, maxConsecutiveAckErrors } =
+      this.healthThresholds;
+    // Failures while the circuit is open are caused by Cloudflare, restarting the
+    // consumer wouldn't help so they only make it not ready
+    const circuitOpen =
+      this.circuitBreaker !== undefined &&
+      this.circuitBreaker.state !== "closed";
+    const reasons: string[] = [];
+
+    if (this.stopped) {
+      reasons.push("The consumer is not running.");
+    } else if (
+      !circuitOpen &&
+      Date.now() - (this.lastPollAt ?? this.startedAt).getTime() > maxPollAgeMs
+    ) {
+      reasons.push(
+        `There hasn't been a successful poll for ${maxPollAgeMs}ms.`,
+      );
+    }
+
+    if (
+      !circuitOpen &&
+      this.consecutivePollErrors >= maxConsecutivePollErrors
+    ) {
+      reasons.push(
+        `${this.consecutivePollErrors} consecutive polls have failed.`,
+      );
+    }
+
+    if (!circuitOpen && this.consecutiveAckErrors >= maxConsecutiveAckErrors) {
+      reasons.push(
+        `${this.consecutiveAckErrors} consecutive acknowledgements have failed.`,
+      );
+    }
+
+    const healthy = reasons.length === 0;
+
+    if (circuitOpen) {
+      reasons.push("The circuit breaker is open.");
+    }
+
+    return {
+      healthy,
+      ready: healthy && !circuitOpen && this.lastPollAt !== undefined,
+      reasons,
+      queueId: this.queueId,
+      isRunning: !this.stopped,
+      lastPollAt: this.lastPollAt,
+      lastAckAt: this.lastAckAt,
+      consecutivePollErrors: this.consecutivePollErrors,
+      consecutiveAckErrors: this.consecutiveAckErrors,
+      inFlightMessages: this.inFlightMessages,
+      circuitState: this.circuitBreaker?.state,
     };
   }
 
@@ -146,62 +564,225 @@ export class Consumer extends TypedEventEmitter {
    */
   private async poll(): Promise<void> {
     if (this.stopped) {
-      logger.debug("cancelling_poll", {
+      this.logger.debug("cancelling_poll", {
         detail:
           "Poll was called while consumer was stopped, cancelling poll...",
       });
       return;
     }
 
-    logger.debug("polling");
+    this.logger.debug("polling");
 
     this.isPolling = true;
 
     const currentPollingTimeout: number = this.pollingWaitTimeMs;
 
-    this.receiveMessage()
-      .then((output: PullMessagesResponse) => this.handleQueueResponse(output))
-      .then((): void => {
-        if (this.pollingTimeoutId) {
-          clearTimeout(this.pollingTimeoutId);
+    const polling = this.waitForCapacity()
+      .then(async (): Promise<number> => {
+        // A handler slot can free up after the consumer has been stopped
+        if (this.stopped) {
+          return 0;
         }
-        this.pollingTimeoutId = setTimeout(
-          () => this.poll(),
-          currentPollingTimeout,
+
+        this.metrics?.increment("polls");
+
+        return this.trace(
+          "poll",
+          { kind: SPAN_KIND.internal },
+          undefined,
+          async (span) =>
+            this.handleQueueResponse(await this.receiveMessage(span), span),
+        );
+      })
+      .then((receivedCount: number): void => {
+        this.schedulePoll(
+          this.getPollingDelay(receivedCount, currentPollingTimeout),
         );
       })
-      .catch((err): void => {
-        // This error handling should be expanded and improved to handle auth timeouts
-        // https://github.com/bbc/cloudflare-queue-consumer/issues/19
+      .catch(async (err): Promise<void> => {
+        if (!(err instanceof CircuitOpenError)) {
+          this.consecutivePollErrors++;
+        }
+
+        if (err instanceof CircuitOpenError) {
+          // Wait until a probe poll can be sent rather than reporting every skipped poll
+          this.schedulePoll(
+            Math.max(
+              this.pollingWaitTimeMs,
+              this.circuitBreaker.remainingOpenMs,
+            ),
+          );
+          return;
+        }
+
+        // Polling again won't help if the token or the account or queue IDs are wrong
+        if (isFatalError(err)) {
+          await this.handleFatalError(err);
+          return;
+        }
+
         this.emit("error", err);
-        setTimeout(() => this.poll(), this.pollingWaitTimeMs);
+        this.schedulePoll(this.pollingWaitTimeMs);
       })
       .finally((): void => {
         this.isPolling = false;
       });
+
+    this.track(this.inFlightPolls, polling);
+  }
+
+  /**
+   * Poll again after a delay, unless the consumer has been stopped while the last
+   * poll was in flight.
+   * @param delayMs The time to wait before polling, in milliseconds
+   */
+  private schedulePoll(delayMs: number): void {
+    if (this.stopped) {
+      return;
+    }
+
+    if (this.pollingTimeoutId) {
+      clearTimeout(this.pollingTimeoutId);
+    }
+    this.pollingTimeoutId = setTimeout(() => this.poll(), delayMs);
+  }
+
+  /**
+   * Stop the consumer after a fatal error, unless the `onFatalError` hook says that
+   * it has recovered.
+   * @param err The fatal error
+   */
+  private async handleFatalError(err: ProviderError): Promise<void> {
+    this.emit("fatal_error", err);
+
+    let recovered = false;
+
+    if (this.onFatalError) {
+      try {
+        recovered = await this.onFatalError(err);
+      } catch (hookErr) {
+        this.emit(
+          "error",
+          toStandardError(
+            hookErr,
+            `Unexpected onFatalError failure: ${hookErr.message}`,
+          ),
+        );
+      }
+    }
+
+    if (!recovered) {
+      this.stop();
+      return;
+    }
+
+    if (!this.stopped) {
+      this.logger.debug("recovered_from_fatal_error");
+      this.credentials.invalidate();
+      this.schedulePoll(this.pollingWaitTimeMs);
+    }
+  }
+
+  /**
+   * Work out how long to wait before polling again.
+   * @param receivedCount The number of messages that the last poll received
+   * @param pollingWaitTimeMs The value of `pollingWaitTimeMs` when the poll started
+   */
+  private getPollingDelay(
+    receivedCount: number,
+    pollingWaitTimeMs: number,
+  ): number {
+    if (
+      this.concurrencyLimiter &&
+      !this.handleMessageBatch &&
+      receivedCount > 0
+    ) {
+      // When handlers run concurrently, messages are pulled as soon as slots free up
+      this.pollingIntervalMs = 0;
+    } else if (!this.adaptivePolling) {
+      this.pollingIntervalMs = pollingWaitTimeMs;
+    } else if (receivedCount >= this.batchSize) {
+      // There are probably more messages waiting
+      this.consecutiveEmptyPolls = 0;
+      this.pollingIntervalMs = 0;
+    } else {
+      const { maxPollingWaitTimeMs, backoffMultiplier, jitter } =
+        this.adaptivePolling;
+
+      this.consecutiveEmptyPolls =
+        receivedCount > 0 ? 0 : this.consecutiveEmptyPolls + 1;
+
+      const intervalMs = Math.min(
+        maxPollingWaitTimeMs,
+        pollingWaitTimeMs *
+          backoffMultiplier ** Math.max(0, this.consecutiveEmptyPolls - 1),
+      );
+
+      this.pollingIntervalMs = Math.round(
+        intervalMs * (1 + (Math.random() * 2 - 1) * jitter),
+      );
+    }
+
+    return this.pollingIntervalMs;
+  }
+
+  /**
+   * Wait until there is capacity to handle more messages when `concurrency` is set.
+   */
+  private async waitForCapacity(): Promise<void> {
+    if (this.concurrencyLimiter && !this.handleMessageBatch) {
+      await this.concurrencyLimiter.waitForAvailability();
+    }
+  }
+
+  /**
+   * The number of messages to request, limited by the free handler slots
+   * when `concurrency` is set.
+   */
+  private get pullBatchSize(): number {
+    if (!this.concurrencyLimiter || this.handleMessageBatch) {
+      return this.batchSize;
+    }
+
+    return Math.max(
+      1,
+      Math.min(this.batchSize, this.concurrencyLimiter.available),
+    );
   }
 
   /**
    * Send a request to Cloudflare Queues to retrieve messages
-   * @param params The required params to receive messages from Cloudflare Queues
+   * @param pollSpan The span of the poll, when `tracing` is set
    */
-  private async receiveMessage(): Promise<PullMessagesResponse> {
+  private async receiveMessage(pollSpan?: Span): Promise<PullMessagesResponse> {
     try {
       if (this.preReceiveMessageCallback) {
         await this.preReceiveMessageCallback();
       }
 
-      const result = queuesClient<PullMessagesResponse>({
-        ...this.fetchOptions,
-        path: "messages/pull",
-        method: "POST",
-        body: {
-          batch_size: this.batchSize,
-          visibility_timeout_ms: this.visibilityTimeoutMs,
-        },
-        accountId: this.accountId,
-        queueId: this.queueId,
-      });
+      const result = this.sendRequest(
+        "pull",
+        () =>
+          queuesClient<PullMessagesResponse>({
+            ...this.fetchOptions,
+            path: "messages/pull",
+            method: "POST",
+            body: {
+              batch_size: this.pullBatchSize,
+              visibility_timeout_ms: this.visibilityTimeoutMs,
+            },
+            accountId: this.accountId,
+            queueId: this.queueId,
+            credentials: this.credentials,
+            baseUrl: this.apiBaseUrl,
+            retryPolicy: this.retryPolicy,
+            onRetry: (retry) => this.emit("request_retry", retry),
+            rateLimiter: this.rateLimiter,
+            priority: "low",
+            idempotent: true,
+          }),
+        pollSpan,
+      );
 
       if (this.postReceiveMessageCallback) {
         await this.postReceiveMessageCallback();
@@ -213,113 +794,547 @@ export class Consumer extends TypedEventEmitter {
     }
   }
 
+  /**
+   * Send a request to Cloudflare through the circuit breaker, when it is enabled.
+   * @param operation The operation that the request is for, only polls can be used
+   * to probe the API
+   * @param request The request to send
+   * @param parent The span that the request is part of, when `tracing` is set
+   */
+  private sendRequest<T>(
+    operation: "pull" | "ack",
+    request: () => Promise<T>,
+    parent?: Span,
+  ): Promise<T> {
+    return this.trace(
+      `queuesClient messages/${operation}`,
+      { kind: SPAN_KIND.client },
+      parent,
+      async () => {
+        if (!this.circuitBreaker) {
+          return this.measureRequest(operation, request);
+        }
+
+        return this.circuitBreaker.execute(
+          () => this.measureRequest(operation, request),
+          operation === "pull",
+        );
+      },
+    );
+  }
+
+  /**
+   * Run a function within a span when `tracing` is set, with the attributes that are
+   * shared by every span.
+   * @param name The name of the span
+   * @param options The options for the span
+   * @param parent The parent of the span
+   * @param fn The function to run
+   */
+  private trace<T>(
+    name: string,
+    options: SpanOptions,
+    parent: Span | SpanContext | undefined,
+    fn: (span?: Span) => Promise<T>,
+  ): Promise<T> {
+    return withSpan(
+      this.tracing,
+      name,
+      {
+        ...options,
+        attributes: {
+          "messaging.system": "cloudflare_queues",
+          "messaging.destination.name": this.queueId,
+          ...options.attributes,
+        },
+      },
+      parent,
+      fn,
+    );
+  }
+
+  /**
+   * Record the latency and any error of a request to Cloudflare when `metrics` is set.
+   * @param operation The operation that the request is for
+   * @param request The request to send
+   */
+  private async measureRequest<T>(
+    operation: string,
+    request: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.metrics) {
+      return request();
+    }
+
+    const startedAt = Date.now();
+
+    try {
+      return await request();
+    } catch (err) {
+      if (err instanceof ProviderError) {
+        this.metrics.recordApiError(err.status);
+      }
+      throw err;
+    } finally {
+      this.metrics.observeApiLatency(operation, Date.now() - startedAt);
+    }
+  }
+
   /**
    * Handles the response from Cloudflare, determining if we should proceed to
    * the message handler.
    * @param response The output from Cloudflare
+   * @param pollSpan The span of the poll, when `tracing` is set
+   * @returns The number of messages that were received
    */
   private async handleQueueResponse(
     response: PullMessagesResponse,
-  ): Promise<void> {
+    pollSpan?: Span,
+  ): Promise<number> {
     if (!response.success) {
+      this.consecutivePollErrors++;
       this.emit("error", new Error("Failed to pull messages"));
       this.isPolling = false;
-      return;
+      return 0;
     }
 
+    this.lastPollAt = new Date();
+    this.consecutivePollErrors = 0;
+
     if (hasMessages(response)) {
+      const messages = response.result.messages;
+      this.metrics?.increment("messagesReceived", messages.length);
+      this.inFlightMessages += messages.length;
+
       if (this.handleMessageBatch) {
-        await this.processMessageBatch(response.result.messages);
+        await this.track(
+          this.inFlightHandlers,
+          this.countInFlight(
+            messages.length,
+            this.processMessageBatch(messages, pollSpan),
+          ),
+        );
+      } else if (this.concurrencyLimiter) {
+        // Don't wait for the slowest message, the next poll happens as soon as a slot is free
+        Promise.all(
+          messages.map((message: Message<string>) =>
+            this.track(
+              this.inFlightHandlers,
+              this.countInFlight(
+                1,
+                this.concurrencyLimiter.run(() =>
+                  this.processMessage(message, pollSpan),
+                ),
+              ),
+            ),
+          ),
+        ).then(() => this.emit("response_processed"));
+
+        return messages.length;
       } else {
         await Promise.all(
-          response.result.messages.map((message: Message) =>
-            this.processMessage(message),
+          messages.map((message: Message<string>) =>
+            this.track(
+              this.inFlightHandlers,
+              this.countInFlight(1, this.processMessage(message, pollSpan)),
+            ),
           ),
         );
       }
 
+      // Nothing else will be added to the buffer until the next poll
+      this.flushAcknowledgements();
       this.emit("response_processed");
+
+      return messages.length;
     } else if (response) {
+      this.metrics?.increment("emptyPolls");
       this.emit("empty");
     }
+
+    return 0;
+  }
+
+  /**
+   * Decode and validate a message so that it can be passed to the handler. Messages
+   * that can't be are added to `rejected` when they should be acknowledged or retried.
+   * @param message The message that was delivered from Cloudflare
+   * @param rejected The messages that have been rejected so far
+   * @returns The decoded message, or `undefined` if it was rejected
+   */
+  private async prepareMessage(
+    message: Message<string>,
+    rejected: MessageOutcomes,
+  ): Promise<Message<TBody> | undefined> {
+    let decodedMessage: Message<TBody> | undefined;
+
+    try {
+      decodedMessage = await decodeMessage(message, this.decodeBody);
+
+      return this.validate
+        ? await validateMessage(decodedMessage, this.validate)
+        : decodedMessage;
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        this.emit("invalid_message", err, decodedMessage);
+
+        if (this.invalidMessageAction === "ack") {
+          rejected.acks.push(message);
+        } else if (this.invalidMessageAction === "retry") {
+          rejected.retries.push(this.toRetry(message, err));
+        }
+      } else {
+        this.emit("decode_error", err, message);
+        await this.deadLetterOrRetry(message, err, rejected);
+      }
+
+      return undefined;
+    }
   }
 
   /**
-   * Process a message that has been received from Cloudflare Queues. This will execute the message
-   * handler and delete the message once complete.
+   * Process a message that has been received from Cloudflare Queues. This will decode and
+   * validate the message, execute the message handler and delete the message once complete.
    * @param message The message that was delivered from Cloudflare
+   * @param pollSpan The span of the poll that received the message, when `tracing` is set
    */
-  private async processMessage(message: Message): Promise<void> {
+  private async processMessage(
+    message: Message<string>,
+    pollSpan?: Span,
+  ): Promise<void> {
+    const failed = createOutcomes();
+    let decodedMessage: Message<TBody> | undefined;
+
     try {
       this.emit("message_received", message);
 
+      decodedMessage = await this.prepareMessage(message, failed);
+
+      if (!decodedMessage) {
+        await this.settleMessages(failed);
+        return;
+      }
+
       // At the moment, we don't extend timeouts on a heartbeat
       // https://github.com/bbc/cloudflare-queue-consumer/issues/20
 
-      const ackedMessage: Message = await this.executeHandler(message);
-
-      if (ackedMessage?.id === message.id) {
-        if (this.shouldDeleteMessages) {
-          // We should probably batch these up to reduce API rate limits
-          // https://github.com/bbc/cloudflare-queue-consumer/issues/21
-          await this.acknowledgeMessage([message], []);
-        }
+      // The handler continues the producer's trace when the message has a traceparent
+      const result = await this.trace(
+        "handleMessage",
+        {
+          kind: SPAN_KIND.consumer,
+          attributes: {
+            "messaging.message.id": message.id,
+            "messaging.cloudflare_queues.attempts": message.attempts,
+          },
+        },
+        extractSpanContext(decodedMessage) ?? pollSpan,
+        () => this.executeHandler(decodedMessage),
+      );
 
-        this.emit("message_processed", message);
+      if (isBatchResult(result)) {
+        // Middleware decided what happens to the message
+        await this.settleMessages(await this.toBatchOutcomes(result));
+      } else if (result?.id === message.id) {
+        await this.settleMessages({
+          acks: this.shouldDeleteMessages ? [message] : [],
+          retries: [],
+          processed: [decodedMessage],
+          deadLettered: [],
+        });
       }
     } catch (err) {
-      this.emitError(err, message);
+      this.emitError(err, decodedMessage ?? message);
 
-      if (this.retryMessagesOnError) {
-        // We should probably batch these up to reduce API rate limits
-        // https://github.com/bbc/cloudflare-queue-consumer/issues/21
-        await this.acknowledgeMessage([], [message]);
-      }
+      await this.deadLetterOrRetry(decodedMessage ?? message, err, failed);
+      await this.settleMessages(failed);
     }
   }
 
   /**
-   * Process a batch of messages from the SQS queue.
+   * Process a batch of messages from the SQS queue. Messages that fail to decode or
+   * validate are left out of the batch.
    * @param messages The messages that were delivered from SQS
+   * @param pollSpan The span of the poll that received the messages, when `tracing` is set
    */
-  private async processMessageBatch(messages: Message[]): Promise<void> {
-    try {
-      messages.forEach((message: Message): void => {
-        this.emit("message_received", message);
-      });
+  private async processMessageBatch(
+    messages: Message<string>[],
+    pollSpan?: Span,
+  ): Promise<void> {
+    messages.forEach((message: Message): void => {
+      this.emit("message_received", message);
+    });
+
+    const rejected = createOutcomes();
+    const decodedMessages: Message<TBody>[] = [];
+
+    for (const message of messages) {
+      const decodedMessage = await this.prepareMessage(message, rejected);
+
+      if (decodedMessage) {
+        decodedMessages.push(decodedMessage);
+      }
+    }
 
+    await this.settleMessages(rejected);
+
+    if (decodedMessages.length === 0) {
+      return;
+    }
+
+    try {
       // At the moment, we don't extend timeouts on a heartbeat
       // https://github.com/bbc/cloudflare-queue-consumer/issues/20
 
-      const ackedMessages: Message[] = await this.executeBatchHandler(messages);
-
-      if (ackedMessages?.length > 0) {
-        if (this.shouldDeleteMessages) {
-          await this.acknowledgeMessage(ackedMessages, []);
-        }
+      const result = await this.trace(
+        "handleMessageBatch",
+        {
+          kind: SPAN_KIND.consumer,
+          attributes: {
+            "messaging.batch.message_count": decodedMessages.length,
+          },
+          links: this.toSpanLinks(decodedMessages),
+        },
+        pollSpan,
+        () => this.executeBatchHandler(decodedMessages),
+      );
 
-        ackedMessages.forEach((message: Message): void => {
-          this.emit("message_processed", message);
+      if (Array.isArray(result)) {
+        await this.settleMessages({
+          ...createOutcomes(),
+          acks: this.shouldDeleteMessages ? result : [],
+          processed: result,
         });
+      } else {
+        await this.settleMessages(await this.toBatchOutcomes(result));
       }
     } catch (err) {
-      this.emit("error", err, messages);
+      this.metrics?.increment("messagesFailed", decodedMessages.length);
+      this.emit("error", err, decodedMessages);
+
+      const failed = createOutcomes();
 
-      if (this.retryMessagesOnError) {
-        await this.acknowledgeMessage([], messages);
+      for (const message of decodedMessages) {
+        await this.deadLetterOrRetry(message, err, failed);
       }
+
+      await this.settleMessages(failed);
     }
   }
 
+  /**
+   * Work out the outcome of each message from a structured batch handler result,
+   * messages that aren't included are left for the visibility timeout.
+   * @param result The result that was returned by the batch handler
+   */
+  private async toBatchOutcomes(
+    result: BatchResult<TBody>,
+  ): Promise<MessageOutcomes> {
+    const outcomes = createOutcomes();
+
+    for (const message of result.ack ?? []) {
+      if (this.shouldDeleteMessages) {
+        outcomes.acks.push(message);
+      }
+      outcomes.processed.push(message);
+    }
+
+    for (const entry of result.retry ?? []) {
+      if (!("message" in entry)) {
+        outcomes.retries.push(this.toRetry(entry));
+      } else if (entry.delaySeconds === undefined) {
+        outcomes.retries.push(this.toRetry(entry.message));
+      } else {
+        outcomes.retries.push({
+          message: entry.message,
+          delaySeconds: capRetryDelay(entry.delaySeconds),
+        });
+      }
+    }
+
+    for (const message of result.deadLetter ?? []) {
+      const reason = new Error("The message was dead lettered by the handler.");
+
+      if (!(await this.deadLetterMessage(message, reason, outcomes))) {
+        outcomes.retries.push(this.toRetry(message, reason));
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Dead letter a message that failed on its last attempt, otherwise retry it if
+   * `retryMessagesOnError` is set.
+   * @param message The message that failed
+   * @param err The error that the message failed with
+   * @param failed The failed messages that the message should be added to
+   */
+  private async deadLetterOrRetry(
+    message: Message,
+    err: Error,
+    failed: MessageOutcomes,
+  ): Promise<void> {
+    if (
+      this.deadLetterHandler &&
+      this.maxAttempts &&
+      message.attempts >= this.maxAttempts &&
+      (await this.deadLetterMessage(message, err, failed))
+    ) {
+      return;
+    }
+
+    if (this.retryMessagesOnError) {
+      failed.retries.push(this.toRetry(message, err));
+    }
+  }
+
+  /**
+   * Send a message to the `deadLetter` sink, adding it to the outcomes to be
+   * acknowledged if that succeeds.
+   * @param message The message to dead letter
+   * @param err The reason that the message is being dead lettered
+   * @param outcomes The outcomes that the message should be added to
+   * @returns `true` if the message was dead lettered
+   */
+  private async deadLetterMessage(
+    message: Message,
+    err: Error,
+    outcomes: MessageOutcomes,
+  ): Promise<boolean> {
+    try {
+      if (!this.deadLetterHandler) {
+        throw new Error("The deadLetter option has not been set.");
+      }
+
+      await this.deadLetterHandler(message, err);
+
+      outcomes.acks.push(message);
+      outcomes.deadLettered.push([message, err]);
+
+      return true;
+    } catch (deadLetterErr) {
+      this.emit(
+        "error",
+        toStandardError(
+          deadLetterErr,
+          `Error dead lettering message: ${deadLetterErr.message}`,
+        ),
+        message,
+      );
+
+      return false;
+    }
+  }
+
+  /**
+   * Work out how long to delay a message for before it is retried.
+   * @param message The message that is being retried
+   * @param err The error that caused the retry
+   */
+  private toRetry(message: Message, err?: Error): MessageRetry {
+    if (typeof this.retryMessageDelay !== "function") {
+      return { message, delaySeconds: this.retryMessageDelay };
+    }
+
+    try {
+      return {
+        message,
+        delaySeconds: capRetryDelay(this.retryMessageDelay(message, err)),
+      };
+    } catch (delayErr) {
+      this.emit(
+        "error",
+        toStandardError(
+          delayErr,
+          `Error calculating the retry delay: ${delayErr.message}`,
+        ),
+        message,
+      );
+
+      return { message, delaySeconds: DEFAULT_RETRY_MESSAGE_DELAY };
+    }
+  }
+
+  /**
+   * Send the acknowledgements and retries in one request, then emit an event for
+   * each message that has been settled.
+   * @param outcomes The outcomes of the messages
+   */
+  private async settleMessages(outcomes: MessageOutcomes): Promise<void> {
+    if (outcomes.acks.length > 0 || outcomes.retries.length > 0) {
+      await this.queueAcknowledgement(outcomes.acks, outcomes.retries, () =>
+        this.emitOutcomes(outcomes),
+      );
+    } else {
+      this.emitOutcomes(outcomes);
+    }
+  }
+
+  /**
+   * Emit an event for each message that has been settled.
+   * @param outcomes The outcomes of the messages
+   */
+  private emitOutcomes(outcomes: MessageOutcomes): void {
+    outcomes.processed.forEach((message: Message): void => {
+      this.emit("message_processed", message);
+    });
+
+    outcomes.retries.forEach(({ message, delaySeconds }): void => {
+      this.emit("message_retried", message, delaySeconds);
+    });
+
+    outcomes.deadLettered.forEach(([message, err]): void => {
+      this.emit("message_dead_lettered", message, err);
+    });
+  }
+
+  /**
+   * Link a batch span to the traces of the producers of its messages.
+   * @param messages The messages in the batch
+   */
+  private toSpanLinks(messages: Message<TBody>[]): SpanOptions["links"] {
+    return messages.flatMap((message) => {
+      const context = extractSpanContext(message);
+
+      return context
+        ? [{ context, attributes: { "messaging.message.id": message.id } }]
+        : [];
+    });
+  }
+
+  /**
+   * Call the handler through the middleware, when there is any.
+   * @param ctx The context for this call to the handler
+   * @param handler Calls the handler and sets `ctx.result`
+   */
+  private runHandler(
+    ctx: MiddlewareContext<TBody>,
+    handler: () => Promise<void>,
+  ): Promise<void> {
+    if (this.middleware.length === 0) {
+      return handler();
+    }
+
+    return runMiddleware(this.middleware, ctx, handler);
+  }
+
   /**
    * Trigger the applications handleMessage function
    * @param message The message that was received from Cloudflare
    */
-  private async executeHandler(message: Message): Promise<Message> {
+  private async executeHandler(
+    message: Message<TBody>,
+  ): Promise<Message<TBody> | BatchResult<TBody>> {
     let handleMessageTimeoutId: NodeJS.Timeout | undefined = undefined;
+    const startedAt = Date.now();
+    const ctx = createMiddlewareContext(this.queueId, [message], false);
 
     try {
-      let result;
+      const handling = this.runHandler(ctx, async () => {
+        const result = await this.handleMessage(message);
+        ctx.result = this.alwaysAcknowledge ? message : result;
+      });
 
       if (this.handleMessageTimeout) {
         const pending: Promise<void> = new Promise((_, reject): void => {
@@ -327,14 +1342,14 @@ export class Consumer extends TypedEventEmitter {
             reject(new TimeoutError());
           }, this.handleMessageTimeout);
         });
-        result = await Promise.race([this.handleMessage(message), pending]);
+        await Promise.race([handling, pending]);
       } else {
-        result = await this.handleMessage(message);
+        await handling;
       }
 
-      return !this.alwaysAcknowledge && result instanceof Object
-        ? result
-        : message;
+      const result = ctx.result as Message<TBody> | BatchResult<TBody> | void;
+
+      return result instanceof Object ? result : message;
     } catch (err) {
       if (err instanceof TimeoutError) {
         throw toTimeoutError(
@@ -352,6 +1367,7 @@ export class Consumer extends TypedEventEmitter {
       if (handleMessageTimeoutId) {
         clearTimeout(handleMessageTimeoutId);
       }
+      this.metrics?.observeHandlerDuration(Date.now() - startedAt);
     }
   }
 
@@ -359,13 +1375,21 @@ export class Consumer extends TypedEventEmitter {
    * Execute the application's message batch handler
    * @param messages The messages that should be forwarded from the SQS queue
    */
-  private async executeBatchHandler(messages: Message[]): Promise<Message[]> {
+  private async executeBatchHandler(
+    messages: Message<TBody>[],
+  ): Promise<Message<TBody>[] | BatchResult<TBody>> {
+    const startedAt = Date.now();
+    const ctx = createMiddlewareContext(this.queueId, messages, true);
+
     try {
-      const result: void | Message[] = await this.handleMessageBatch(messages);
+      await this.runHandler(ctx, async () => {
+        const result = await this.handleMessageBatch(messages);
+        ctx.result = this.alwaysAcknowledge ? messages : result;
+      });
+
+      const result = ctx.result as Message<TBody>[] | BatchResult<TBody> | void;
 
-      return !this.alwaysAcknowledge && result instanceof Object
-        ? result
-        : messages;
+      return result instanceof Object ? result : messages;
     } catch (err) {
       if (err instanceof Error) {
         throw toStandardError(
@@ -374,6 +1398,47 @@ export class Consumer extends TypedEventEmitter {
         );
       }
       throw err;
+    } finally {
+      this.metrics?.observeHandlerDuration(Date.now() - startedAt);
+    }
+  }
+
+  /**
+   * Send acknowledgements and retries to Cloudflare, via the acknowledgement buffer
+   * when `batchAcknowledgements` is enabled. Buffered messages don't hold up their
+   * handler, so that the batch they were pulled in can be flushed once it has been
+   * handled. Once the consumer has been stopped they are sent straight away so that
+   * they aren't held up while it drains.
+   * @param acks The message(s) to acknowledge
+   * @param retries The message(s) to retry
+   * @param onSent Called once the request containing them has settled
+   */
+  private async queueAcknowledgement(
+    acks: Message[],
+    retries: MessageRetry[],
+    onSent: () => void,
+  ): Promise<void> {
+    if (this.acknowledgementBuffer && !this.stopped) {
+      this.track(
+        this.inFlightHandlers,
+        this.acknowledgementBuffer.add(acks, retries).then(onSent),
+      );
+    } else {
+      await this.track(
+        this.inFlightAcknowledgements,
+        this.acknowledgeMessage(acks, retries),
+      );
+      onSent();
+    }
+  }
+
+  /**
+   * Send the buffered acknowledgements and retries without waiting for the buffer
+   * to fill up or for `acknowledgementFlushIntervalMs` to pass.
+   */
+  private flushAcknowledgements(): void {
+    if (this.acknowledgementBuffer?.size > 0) {
+      this.track(this.inFlightPolls, this.acknowledgementBuffer.flush());
     }
   }
 
@@ -384,35 +1449,66 @@ export class Consumer extends TypedEventEmitter {
    */
   private async acknowledgeMessage(
     acks: Message[],
-    retries: Message[],
+    retries: MessageRetry[],
   ): Promise<AckMessageResponse> {
     try {
-      // This is pretty hacky, is there a better way to do this?
-      // https://github.com/bbc/cloudflare-queue-consumer/issues/22
-      const retriesWithDelay = retries.map((message) => ({
-        ...message,
-        delay_seconds: this.retryMessageDelay,
+      const leaseAcks = acks.map((message) => ({
+        lease_id: message.lease_id,
       }));
-      const input = { acks, retries: retriesWithDelay };
-      this.emit("acknowledging_messages", acks, retriesWithDelay);
-
-      const result = await queuesClient<AckMessageResponse>({
-        ...this.fetchOptions,
-        path: "messages/ack",
-        method: "POST",
-        body: input,
-        accountId: this.accountId,
-        queueId: this.queueId,
-      });
+      const retriesWithDelay = retries.map((retry) => ({
+        lease_id: retry.message.lease_id,
+        delay_seconds: retry.delaySeconds,
+      }));
+      const input = { acks: leaseAcks, retries: retriesWithDelay };
+      this.emit("acknowledging_messages", leaseAcks, retriesWithDelay);
 
-      if (!result.success) {
-        throw new Error("Message Acknowledgement did not succeed.");
-      }
+      const result = await this.trace(
+        "acknowledgeMessage",
+        {
+          kind: SPAN_KIND.client,
+          attributes: {
+            "messaging.batch.message_count": acks.length + retries.length,
+          },
+        },
+        undefined,
+        async (span) => {
+          const response = await this.sendRequest(
+            "ack",
+            () =>
+              queuesClient<AckMessageResponse>({
+                ...this.fetchOptions,
+                path: "messages/ack",
+                method: "POST",
+                body: input,
+                accountId: this.accountId,
+                queueId: this.queueId,
+                credentials: this.credentials,
+                baseUrl: this.apiBaseUrl,
+                retryPolicy: this.retryPolicy,
+                onRetry: (retry) => this.emit("request_retry", retry),
+                rateLimiter: this.rateLimiter,
+                idempotent: true,
+              }),
+            span,
+          );
+
+          if (!response.success) {
+            throw new Error("Message Acknowledgement did not succeed.");
+          }
 
+          return response;
+        },
+      );
+
+      this.lastAckAt = new Date();
+      this.consecutiveAckErrors = 0;
+      this.metrics?.increment("messagesAcknowledged", acks.length);
+      this.metrics?.increment("messagesRetried", retries.length);
       this.emit("acknowledged_messages", result.result);
 
       return result;
     } catch (err) {
+      this.consecutiveAckErrors++;
       this.emit(
         "error",
         toProviderError(err, `Error acknowledging messages: ${err.message}`),
@@ -420,6 +1516,20 @@ export class Consumer extends TypedEventEmitter {
     }
   }
 
+  /**
+   * Add a middleware that wraps every call to the handler, middleware runs in the
+   * order that it was added.
+   * @param middleware The middleware to add
+   */
+  public use(middleware: Middleware<TBody>): this {
+    if (typeof middleware !== "function") {
+      throw new Error("middleware must be a function.");
+    }
+
+    this.middleware.push(middleware);
+    return this;
+  }
+
   /**
    * Validates and then updates the provided option to the provided value.
    * @param option The option to validate and then update
@@ -431,6 +1541,13 @@ export class Consumer extends TypedEventEmitter {
   ): void {
     validateOption(option, value, true);
 
+    if (option === "visibilityTimeoutMs" && this.acknowledgementBuffer) {
+      assertAcknowledgementFlushInterval(
+        this.acknowledgementBuffer.flushIntervalMs,
+        value,
+      );
+    }
+
     this[option] = value;
 
     this.emit("option_updated", option, value);
@@ -447,8 +1564,10 @@ export class Consumer extends TypedEventEmitter {
     } else if (err.name === ProviderError.name) {
       this.emit("error", err, message);
     } else if (err instanceof TimeoutError) {
+      this.metrics?.increment("messagesTimedOut");
       this.emit("timeout_error", err, message);
     } else {
+      this.metrics?.increment("messagesFailed");
       this.emit("processing_error", err, message);
     }
   }
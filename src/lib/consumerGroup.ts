@@ -0,0 +1,195 @@
+import { EventEmitter } from "node:events";
+
+import type {
+  ConsumerGroupEvents,
+  ConsumerGroupOptions,
+  ConsumerOptions,
+  Events,
+  Middleware,
+  StopOptions,
+} from "../types.js";
+import {
+  ConcurrencyLimiter,
+  SHARED_CONCURRENCY_LIMITER,
+  type SharedConcurrencyOptions,
+} from "../utils/concurrency.js";
+import { assertConsumerGroupOptions } from "../utils/validation.js";
+import { Consumer } from "./consumer.js";
+
+/**
+ * Every event that a consumer emits, keyed so that the compiler catches any event that
+ * is added to `Events` without being forwarded by the group.
+ */
+const CONSUMER_EVENTS: Record<keyof Events, true> = {
+  response_processed: true,
+  empty: true,
+  message_received: true,
+  message_processed: true,
+  error: true,
+  fatal_error: true,
+  circuit_opened: true,
+  circuit_half_open: true,
+  circuit_closed: true,
+  timeout_error: true,
+  processing_error: true,
+  aborted: true,
+  started: true,
+  signal_received: true,
+  draining: true,
+  stopped: true,
+  acknowledging_messages: true,
+  acknowledged_messages: true,
+  request_retry: true,
+  option_updated: true,
+  decode_error: true,
+  message_retried: true,
+  message_dead_lettered: true,
+  invalid_message: true,
+};
+
+/**
+ * Consumes several queues from one process. A `Consumer` is created for every queue
+ * and they are started and stopped together, with their events re-emitted by the
+ * group with the `queueId` of the consumer as the first argument.
+ */
+export class ConsumerGroup<TBody = unknown> extends EventEmitter {
+  /**
+   * The consumers in the group, in the order that their queues were given.
+   */
+  public readonly consumers: Consumer<TBody>[] = [];
+  private consumersByQueue = new Map<string, Consumer<TBody>>();
+  private concurrencyLimiter?: ConcurrencyLimiter;
+
+  /**
+   * Create a new consumer group
+   * @param options The options for the group
+   */
+  constructor(options: ConsumerGroupOptions<TBody>) {
+    super();
+    assertConsumerGroupOptions(options);
+
+    const { queues, concurrency, ...defaults } = options;
+
+    if (concurrency) {
+      this.concurrencyLimiter = new ConcurrencyLimiter(concurrency);
+    }
+
+    queues.forEach((queue): void => {
+      const consumerOptions: ConsumerOptions<TBody> & SharedConcurrencyOptions =
+        {
+          ...defaults,
+          ...queue,
+          [SHARED_CONCURRENCY_LIMITER]: this.concurrencyLimiter,
+        };
+      const consumer = new Consumer<TBody>(consumerOptions);
+      this.forwardEvents(queue.queueId, consumer);
+      this.consumers.push(consumer);
+      this.consumersByQueue.set(queue.queueId, consumer);
+    });
+  }
+
+  /**
+   * Creates a new consumer group.
+   */
+  public static create<TBody = unknown>(
+    options: ConsumerGroupOptions<TBody>,
+  ): ConsumerGroup<TBody> {
+    return new ConsumerGroup(options);
+  }
+
+  /**
+   * Find the consumer of a queue in the group.
+   * @param queueId The ID of the queue
+   */
+  public get(queueId: string): Consumer<TBody> | undefined {
+    return this.consumersByQueue.get(queueId);
+  }
+
+  /**
+   * Start polling every queue in the group.
+   */
+  public start(): void {
+    this.consumers.forEach((consumer): void => {
+      consumer.start();
+    });
+  }
+
+  /**
+   * Stop polling every queue in the group, resolving once every consumer has stopped.
+   * @param options The options that are passed to each consumer
+   */
+  public async stop(options?: StopOptions): Promise<void> {
+    await Promise.all(this.consumers.map((consumer) => consumer.stop(options)));
+  }
+
+  /**
+   * Add a middleware to every consumer in the group.
+   * @param middleware The middleware to add
+   */
+  public use(middleware: Middleware<TBody>): this {
+    this.consumers.forEach((consumer): void => {
+      consumer.use(middleware);
+    });
+    return this;
+  }
+
+  /**
+   * Returns the status of every consumer in the group, keyed by queue ID.
+   */
+  public get status(): Record<string, Consumer["status"]> {
+    return Object.fromEntries(
+      [...this.consumersByQueue].map(([queueId, consumer]) => [
+        queueId,
+        consumer.status,
+      ]),
+    );
+  }
+
+  /**
+   * Trigger a listener on all emitted events
+   * @param event The name of the event to listen to
+   * @param listener A function to trigger when the event is emitted
+   */
+  on<E extends keyof ConsumerGroupEvents>(
+    event: E,
+    listener: (...args: ConsumerGroupEvents[E]) => void,
+  ): this {
+    return super.on(event, listener);
+  }
+  /**
+   * Trigger a listener only once for an emitted event
+   * @param event The name of the event to listen to
+   * @param listener A function to trigger when the event is emitted
+   */
+  once<E extends keyof ConsumerGroupEvents>(
+    event: E,
+    listener: (...args: ConsumerGroupEvents[E]) => void,
+  ): this {
+    return super.once(event, listener);
+  }
+  /**
+   * Emits an event with the provided arguments
+   * @param event The name of the event to emit
+   */
+  emit<E extends keyof ConsumerGroupEvents>(
+    event: E,
+    ...args: ConsumerGroupEvents[E]
+  ): boolean {
+    return super.emit(event, ...args);
+  }
+
+  /**
+   * Re-emit every event of a consumer with its queue ID.
+   * @param queueId The ID of the queue that the consumer is polling
+   * @param consumer The consumer to forward the events of
+   */
+  private forwardEvents(queueId: string, consumer: Consumer<TBody>): void {
+    (Object.keys(CONSUMER_EVENTS) as (keyof Events)[]).forEach(
+      (event): void => {
+        consumer.on(event, (...args) => {
+          super.emit(event, queueId, ...args);
+        });
+      },
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import type { Credentials } from "../types.js";
+
+export function getCredentials() {
+  const QUEUES_API_TOKEN = process.env.QUEUES_API_TOKEN;
+
+  if (!QUEUES_API_TOKEN) {
+    throw new Error(
+      "Missing Cloudflare credentials, please set a QUEUES_API_TOKEN in the environment variables.",
+    );
+  }
+
+  return {
+    QUEUES_API_TOKEN,
+  };
+}
+
+/**
+ * Resolves and caches the API token from the `credentials` option, falling back to
+ * the `QUEUES_API_TOKEN` environment variable when no credentials were provided.
+ */
+export class CredentialsCache {
+  private credentials?: Credentials;
+  private token?: Promise<string>;
+
+  /**
+   * Create a new credentials cache
+   * @param credentials A static token or a function that provides one
+   */
+  constructor(credentials?: Credentials) {
+    this.credentials = credentials;
+  }
+
+  /**
+   * If the token comes from a provider that can be asked for a new one.
+   */
+  public get isRefreshable(): boolean {
+    return typeof this.credentials === "function";
+  }
+
+  /**
+   * Returns the cached token, resolving it first if there isn't one.
+   */
+  public getToken(): Promise<string> {
+    if (!this.credentials) {
+      return Promise.resolve().then(() => getCredentials().QUEUES_API_TOKEN);
+    }
+
+    if (!this.token) {
+      this.token = this.resolveToken();
+      // Don't cache failures, the next request should try the provider again
+      this.token.catch(() => this.invalidate());
+    }
+
+    return this.token;
+  }
+
+  /**
+   * Clear the cached token so that the provider is called again on the next request.
+   */
+  public invalidate(): void {
+    this.token = undefined;
+  }
+
+  /**
+   * Get the token from the configured credentials.
+   */
+  private async resolveToken(): Promise<string> {
+    if (typeof this.credentials === "string") {
+      return this.credentials;
+    }
+
+    const token = await this.credentials();
+
+    if (!token) {
+      throw new Error(
+        "Missing Cloudflare credentials, the credentials provider did not return a token.",
+      );
+    }
+
+    return token;
+  }
+}
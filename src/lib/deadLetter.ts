@@ -0,0 +1,64 @@
+import { appendFile } from "node:fs/promises";
+
+import type {
+  Credentials,
+  DeadLetterHandler,
+  DeadLetterSink,
+  RateLimitOptions,
+  RetryPolicy,
+} from "../types.js";
+import { DecodeError } from "../utils/errors.js";
+import { Producer } from "./producer.js";
+
+/**
+ * The consumer options that a queue sink needs to send messages.
+ */
+interface DeadLetterClientOptions {
+  accountId: string;
+  credentials?: Credentials;
+  apiBaseUrl?: string;
+  retryPolicy?: RetryPolicy;
+  rateLimit?: boolean | RateLimitOptions;
+}
+
+/**
+ * Turn the `deadLetter` option into a function that dead letters a message.
+ * @param sink The sink that was provided by the application
+ * @param options The options used to send messages to a queue sink
+ */
+export function createDeadLetterHandler(
+  sink: DeadLetterSink,
+  options: DeadLetterClientOptions,
+): DeadLetterHandler {
+  if (typeof sink === "function") {
+    return sink;
+  }
+
+  if ("queueId" in sink) {
+    const producer = new Producer({
+      ...options,
+      accountId: sink.accountId ?? options.accountId,
+      queueId: sink.queueId,
+    });
+
+    return async (message, error): Promise<void> => {
+      // Bodies that couldn't be decoded are forwarded as they were received
+      await producer.send(message.body, {
+        contentType:
+          error instanceof DecodeError
+            ? "text"
+            : message.metadata?.["CF-Content-Type"],
+      });
+    };
+  }
+
+  return async (message, error): Promise<void> => {
+    const entry = {
+      message,
+      error: error.message,
+      time: new Date().toISOString(),
+    };
+
+    await appendFile(sink.file, `${JSON.stringify(entry)}\n`);
+  };
+}
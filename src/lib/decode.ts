@@ -0,0 +1,45 @@
+import { deserialize } from "node:v8";
+
+import type { Message } from "../types.js";
+import { toDecodeError } from "../utils/errors.js";
+
+/**
+ * Decode the body of a message based on its `CF-Content-Type`. JSON bodies are parsed,
+ * `bytes` bodies become a `Buffer` and `v8` bodies are deserialised, anything else is
+ * returned as it was received.
+ * @param message The message as it was received from Cloudflare
+ */
+export function decodeBody(message: Message<string>): unknown {
+  const body = message.body;
+
+  // Binary content types are base64 encoded by the pull API
+  switch (message.metadata?.["CF-Content-Type"]) {
+    case "json":
+      return typeof body === "string" ? JSON.parse(body) : body;
+    case "bytes":
+      return Buffer.from(body, "base64");
+    case "v8":
+      return deserialize(Buffer.from(body, "base64"));
+    default:
+      return body;
+  }
+}
+
+/**
+ * Create a copy of the message with a decoded body.
+ * @param message The message as it was received from Cloudflare
+ * @param decoder The function that decodes the body
+ */
+export async function decodeMessage<TBody>(
+  message: Message<string>,
+  decoder: (message: Message<string>) => TBody | Promise<TBody>,
+): Promise<Message<TBody>> {
+  try {
+    return { ...message, body: await decoder(message) };
+  } catch (err) {
+    throw toDecodeError(
+      err,
+      `Failed to decode the message body: ${err?.message ?? err}`,
+    );
+  }
+}
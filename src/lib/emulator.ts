@@ -0,0 +1,387 @@
+import { randomUUID } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type {
+  CloudFlareError,
+  Message,
+  QueueContentType,
+  SendMessageRequest,
+  SendOptions,
+} from "../types.js";
+import { logger } from "../utils/logger.js";
+import { toSendMessageRequest } from "./producer.js";
+
+/**
+ * The options for the emulator.
+ */
+export interface QueuesEmulatorOptions {
+  /**
+   * The port to listen on, a random free port is used by default.
+   * @defaultvalue `0`
+   */
+  port?: number;
+  /**
+   * The host to listen on.
+   * @defaultvalue `127.0.0.1`
+   */
+  host?: string;
+  /**
+   * If set, requests must use this token or the emulator will respond with a 401.
+   */
+  apiToken?: string;
+  /**
+   * The visibility timeout (in milliseconds) to use when a pull request does not set one.
+   * @defaultvalue `30000`
+   */
+  defaultVisibilityTimeoutMs?: number;
+}
+
+/**
+ * A message as it is stored by the emulator.
+ */
+export interface EmulatedMessage {
+  id: string;
+  body: string;
+  contentType: QueueContentType;
+  timestampMs: number;
+  attempts: number;
+  availableAt: number;
+  leaseId?: string;
+  leaseExpiresAt?: number;
+}
+
+class EmulatorError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "EmulatorError";
+    this.status = status;
+  }
+}
+
+const ROUTE =
+  /^\/accounts\/([^/]+)\/queues\/([^/]+)\/messages(?:\/(pull|ack|batch))?$/;
+
+/**
+ * Store the body in the format that the pull API returns it in.
+ * @param request The message that was sent to the emulator
+ */
+function toStoredBody({ body, content_type }: SendMessageRequest): string {
+  switch (content_type) {
+    case "json":
+      return JSON.stringify(body);
+    default:
+      // Binary content types are already base64 encoded by the sender
+      return String(body);
+  }
+}
+
+/**
+ * An in-memory emulator of the Cloudflare Queues pull consumer API, including leases,
+ * visibility timeouts, delays and attempt counting.
+ *
+ * Point a `Consumer` or `Producer` at it with the `apiBaseUrl` option.
+ */
+export class QueuesEmulator {
+  private server: Server;
+  private port: number;
+  private host: string;
+  private apiToken?: string;
+  private defaultVisibilityTimeoutMs: number;
+  private queues = new Map<string, EmulatedMessage[]>();
+
+  /**
+   * Create a new emulator
+   * @param options The options for the emulator
+   */
+  constructor(options: QueuesEmulatorOptions = {}) {
+    this.port = options.port ?? 0;
+    this.host = options.host ?? "127.0.0.1";
+    this.apiToken = options.apiToken;
+    this.defaultVisibilityTimeoutMs =
+      options.defaultVisibilityTimeoutMs ?? 30000;
+    this.server = createServer((req, res) => this.handleRequest(req, res));
+  }
+
+  /**
+   * The base URL to use as the `apiBaseUrl` option, available once started.
+   */
+  public get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+
+    if (!address) {
+      throw new Error("The emulator has not been started.");
+    }
+
+    return `http://${this.host}:${address.port}`;
+  }
+
+  /**
+   * Start listening for requests.
+   * @returns The base URL of the emulator
+   */
+  public async start(): Promise<string> {
+    await new Promise<void>((resolve, reject): void => {
+      this.server.once("error", reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+
+    logger.debug("emulator_started", { url: this.url });
+
+    return this.url;
+  }
+
+  /**
+   * Stop listening for requests.
+   */
+  public async stop(): Promise<void> {
+    if (!this.server.listening) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject): void => {
+      this.server.close((err) => (err ? reject(err) : resolve()));
+      this.server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Add a message to a queue directly, without going through HTTP.
+   * @param queueId The ID of the queue
+   * @param body The body of the message
+   * @param options The content type and delay of the message
+   */
+  public send(
+    queueId: string,
+    body: unknown,
+    options?: SendOptions,
+  ): EmulatedMessage {
+    return this.enqueue(queueId, toSendMessageRequest(body, options));
+  }
+
+  /**
+   * Returns every message that is currently stored for a queue, including
+   * those that are leased or delayed.
+   * @param queueId The ID of the queue
+   */
+  public getMessages(queueId: string): EmulatedMessage[] {
+    return [...this.getQueue(queueId)];
+  }
+
+  /**
+   * Remove every message from every queue.
+   */
+  public reset(): void {
+    this.queues.clear();
+  }
+
+  private getQueue(queueId: string): EmulatedMessage[] {
+    if (!this.queues.has(queueId)) {
+      this.queues.set(queueId, []);
+    }
+
+    return this.queues.get(queueId);
+  }
+
+  private enqueue(
+    queueId: string,
+    request: SendMessageRequest,
+  ): EmulatedMessage {
+    const now = Date.now();
+    const message: EmulatedMessage = {
+      id: randomUUID(),
+      body: toStoredBody(request),
+      contentType: request.content_type ?? "json",
+      timestampMs: now,
+      attempts: 0,
+      availableAt: now + (request.delay_seconds ?? 0) * 1000,
+    };
+
+    this.getQueue(queueId).push(message);
+
+    return message;
+  }
+
+  /**
+   * Find the message that currently holds a lease, expired leases are ignored.
+   */
+  private findLeased(
+    queueId: string,
+    leaseId: string,
+    now: number,
+  ): EmulatedMessage | undefined {
+    return this.getQueue(queueId).find(
+      (message) => message.leaseId === leaseId && message.leaseExpiresAt > now,
+    );
+  }
+
+  private pull(
+    queueId: string,
+    body: { batch_size?: number; visibility_timeout_ms?: number },
+  ): { messages: Message[] } {
+    const now = Date.now();
+    const batchSize = body.batch_size ?? 5;
+    const visibilityTimeoutMs =
+      body.visibility_timeout_ms ?? this.defaultVisibilityTimeoutMs;
+
+    const available = this.getQueue(queueId)
+      .filter(
+        (message) =>
+          message.availableAt <= now &&
+          (!message.leaseId || message.leaseExpiresAt <= now),
+      )
+      .slice(0, batchSize);
+
+    return {
+      messages: available.map((message): Message => {
+        message.attempts++;
+        message.leaseId = randomUUID();
+        message.leaseExpiresAt = now + visibilityTimeoutMs;
+
+        return {
+          body: message.body,
+          id: message.id,
+          timestamp_ms: message.timestampMs,
+          attempts: message.attempts,
+          lease_id: message.leaseId,
+          metadata: {
+            "CF-sourceMessageSource": "emulator",
+            "CF-Content-Type": message.contentType,
+          },
+        };
+      }),
+    };
+  }
+
+  private ack(
+    queueId: string,
+    body: {
+      acks?: { lease_id: string }[];
+      retries?: { lease_id: string; delay_seconds?: number }[];
+    },
+  ): { ackCount: number; retryCount: number; warnings: string[] } {
+    const now = Date.now();
+    const queue = this.getQueue(queueId);
+    const warnings: string[] = [];
+    let ackCount = 0;
+    let retryCount = 0;
+
+    for (const ack of body.acks ?? []) {
+      const message = this.findLeased(queueId, ack.lease_id, now);
+
+      if (!message) {
+        warnings.push(`Lease ${ack.lease_id} was not found or has expired`);
+        continue;
+      }
+
+      queue.splice(queue.indexOf(message), 1);
+      ackCount++;
+    }
+
+    for (const retry of body.retries ?? []) {
+      const message = this.findLeased(queueId, retry.lease_id, now);
+
+      if (!message) {
+        warnings.push(`Lease ${retry.lease_id} was not found or has expired`);
+        continue;
+      }
+
+      message.leaseId = undefined;
+      message.leaseExpiresAt = undefined;
+      message.availableAt = now + (retry.delay_seconds ?? 0) * 1000;
+      retryCount++;
+    }
+
+    return { ackCount, retryCount, warnings };
+  }
+
+  private route(
+    action: string | undefined,
+    queueId: string,
+    body: Record<string, unknown>,
+  ): unknown {
+    switch (action) {
+      case "pull":
+        return this.pull(queueId, body);
+      case "ack":
+        return this.ack(queueId, body);
+      case "batch":
+        for (const message of (body.messages ?? []) as SendMessageRequest[]) {
+          this.enqueue(queueId, {
+            delay_seconds: body.delay_seconds as number,
+            ...message,
+          });
+        }
+        return null;
+      default:
+        this.enqueue(queueId, body as SendMessageRequest);
+        return null;
+    }
+  }
+
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    let status = 200;
+    let result: unknown = null;
+    let errors: CloudFlareError[] = [];
+
+    try {
+      const match = ROUTE.exec(new URL(req.url, "http://localhost").pathname);
+
+      if (!match || req.method !== "POST") {
+        throw new EmulatorError(404, "No route for that URI");
+      }
+
+      if (
+        this.apiToken &&
+        req.headers.authorization !== `Bearer ${this.apiToken}`
+      ) {
+        throw new EmulatorError(401, "Authentication error");
+      }
+
+      const [, , queueId, action] = match;
+      const chunks: Buffer[] = [];
+
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+
+      const raw = Buffer.concat(chunks).toString();
+      let body: Record<string, unknown> = {};
+
+      try {
+        body = raw ? JSON.parse(raw) : {};
+      } catch {
+        throw new EmulatorError(400, "Invalid JSON in request body");
+      }
+
+      result = this.route(action, queueId, body);
+    } catch (err) {
+      status = err instanceof EmulatorError ? err.status : 500;
+      errors = [{ code: status, message: err.message }];
+    }
+
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(
+      JSON.stringify({
+        errors,
+        messages: [],
+        result,
+        success: errors.length === 0,
+        result_info: null,
+      }),
+    );
+  }
+}
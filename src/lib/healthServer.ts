@@ -0,0 +1,133 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type { HealthReport } from "../types.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Anything that can report on its health, such as a `Consumer`.
+ */
+export interface HealthCheck {
+  health(): HealthReport;
+}
+
+/**
+ * The options for the health server.
+ */
+export interface HealthServerOptions {
+  /**
+   * The port to listen on, a random free port is used by default.
+   * @defaultvalue `0`
+   */
+  port?: number;
+  /**
+   * The host to listen on.
+   * @defaultvalue `0.0.0.0`
+   */
+  host?: string;
+}
+
+/**
+ * A tiny HTTP server for liveness and readiness probes. `/healthz` responds with a
+ * `200` while every consumer is healthy and `/readyz` while every consumer is ready,
+ * otherwise they respond with a `503`. Both include the health reports in the body.
+ */
+export class HealthServer {
+  private server: Server;
+  private checks: HealthCheck[];
+  private port: number;
+  private host: string;
+
+  /**
+   * Create a new health server
+   * @param checks The consumer(s) to report on
+   * @param options The options for the server
+   */
+  constructor(
+    checks: HealthCheck | HealthCheck[],
+    options: HealthServerOptions = {},
+  ) {
+    this.checks = Array.isArray(checks) ? checks : [checks];
+    this.port = options.port ?? 0;
+    this.host = options.host ?? "0.0.0.0";
+    this.server = createServer((req, res) => this.handleRequest(req, res));
+  }
+
+  /**
+   * The base URL of the server, available once started.
+   */
+  public get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+
+    if (!address) {
+      throw new Error("The health server has not been started.");
+    }
+
+    return `http://${this.host}:${address.port}`;
+  }
+
+  /**
+   * Start listening for requests.
+   * @returns The base URL of the server
+   */
+  public async start(): Promise<string> {
+    await new Promise<void>((resolve, reject): void => {
+      this.server.once("error", reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+
+    logger.debug("health_server_started", { url: this.url });
+
+    return this.url;
+  }
+
+  /**
+   * Stop listening for requests.
+   */
+  public async stop(): Promise<void> {
+    if (!this.server.listening) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject): void => {
+      this.server.close((err) => (err ? reject(err) : resolve()));
+      this.server.closeAllConnections();
+    });
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    let pathname: string;
+
+    try {
+      ({ pathname } = new URL(req.url ?? "/", "http://localhost"));
+    } catch {
+      this.respond(res, 400, { error: "Bad request" });
+      return;
+    }
+
+    if (pathname !== "/healthz" && pathname !== "/readyz") {
+      this.respond(res, 404, { error: "Not found" });
+      return;
+    }
+
+    const reports = this.checks.map((check) => check.health());
+    const ok = reports.every((report) =>
+      pathname === "/healthz" ? report.healthy : report.ready,
+    );
+
+    this.respond(res, ok ? 200 : 503, { ok, consumers: reports });
+  }
+
+  private respond(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,326 @@
+import type {
+  HistogramSnapshot,
+  MetricsCounters,
+  MetricsOptions,
+  MetricsSnapshot,
+} from "../types.js";
+import type { RateLimiter } from "../utils/rateLimiter.js";
+
+const METRIC_PREFIX = "cloudflare_queue_consumer";
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const COUNTERS: [keyof MetricsCounters, string, string][] = [
+  ["messagesReceived", "messages_received_total", "Messages received."],
+  [
+    "messagesAcknowledged",
+    "messages_acknowledged_total",
+    "Messages acknowledged.",
+  ],
+  ["messagesRetried", "messages_retried_total", "Messages retried."],
+  ["messagesFailed", "messages_failed_total", "Messages that failed."],
+  [
+    "messagesTimedOut",
+    "messages_timed_out_total",
+    "Messages whose handler timed out.",
+  ],
+  ["polls", "polls_total", "Polls of the queue."],
+  ["emptyPolls", "empty_polls_total", "Polls that returned no messages."],
+];
+
+/**
+ * Counts observations into cumulative buckets, as Prometheus histograms do.
+ */
+class Histogram {
+  private bounds: number[];
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(bounds: number[]) {
+    this.bounds = bounds;
+    this.counts = bounds.map(() => 0);
+  }
+
+  public observe(seconds: number): void {
+    this.sum += seconds;
+    this.count++;
+
+    this.bounds.forEach((bound, index): void => {
+      if (seconds <= bound) {
+        this.counts[index]++;
+      }
+    });
+  }
+
+  public snapshot(): HistogramSnapshot {
+    const buckets: Record<string, number> = {};
+
+    this.bounds.forEach((bound, index): void => {
+      buckets[String(bound)] = this.counts[index];
+    });
+    buckets["+Inf"] = this.count;
+
+    return { buckets, sum: this.sum, count: this.count };
+  }
+}
+
+/**
+ * Tracks counters and histograms for a consumer.
+ */
+export class MetricsCollector {
+  private labels: Record<string, string>;
+  private bounds: number[];
+  private counters: MetricsCounters = {
+    messagesReceived: 0,
+    messagesAcknowledged: 0,
+    messagesRetried: 0,
+    messagesFailed: 0,
+    messagesTimedOut: 0,
+    polls: 0,
+    emptyPolls: 0,
+  };
+  private apiErrors: Record<string, number> = {};
+  private handlerDuration: Histogram;
+  private apiLatency: Record<string, Histogram> = {};
+  private rateLimiter?: RateLimiter;
+
+  /**
+   * Create a new metrics collector
+   * @param queueId The ID of the queue that the consumer is polling
+   * @param options The options for the collector
+   * @param rateLimiter The rate limiter that the consumer shares, to report its state
+   */
+  constructor(
+    queueId: string,
+    options: MetricsOptions = {},
+    rateLimiter?: RateLimiter,
+  ) {
+    this.labels = {
+      ...(options.includeQueueId === false ? {} : { queue_id: queueId }),
+      ...options.labels,
+    };
+    this.bounds = [...(options.buckets ?? DEFAULT_BUCKETS)].sort(
+      (a, b) => a - b,
+    );
+    this.handlerDuration = new Histogram(this.bounds);
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Add to one of the counters.
+   * @param counter The counter to add to
+   * @param value The amount to add
+   */
+  public increment(counter: keyof MetricsCounters, value = 1): void {
+    this.counters[counter] += value;
+  }
+
+  /**
+   * Count a failed request to Cloudflare.
+   * @param status The status of the response, if there was one
+   */
+  public recordApiError(status?: number): void {
+    const key = status ? String(status) : "network";
+    this.apiErrors[key] = (this.apiErrors[key] ?? 0) + 1;
+  }
+
+  /**
+   * Record how long a message handler took.
+   * @param durationMs The duration in milliseconds
+   */
+  public observeHandlerDuration(durationMs: number): void {
+    this.handlerDuration.observe(durationMs / 1000);
+  }
+
+  /**
+   * Record how long a request to Cloudflare took.
+   * @param operation The operation that the request was for
+   * @param durationMs The duration in milliseconds
+   */
+  public observeApiLatency(operation: string, durationMs: number): void {
+    this.apiLatency[operation] ??= new Histogram(this.bounds);
+    this.apiLatency[operation].observe(durationMs / 1000);
+  }
+
+  /**
+   * A copy of the metrics that have been collected so far.
+   */
+  public snapshot(): MetricsSnapshot {
+    const apiLatency: Record<string, HistogramSnapshot> = {};
+
+    Object.entries(this.apiLatency).forEach(([operation, histogram]): void => {
+      apiLatency[operation] = histogram.snapshot();
+    });
+
+    return {
+      labels: { ...this.labels },
+      counters: { ...this.counters },
+      apiErrors: { ...this.apiErrors },
+      handlerDuration: this.handlerDuration.snapshot(),
+      apiLatency,
+      rateLimiter: this.rateLimiter?.state,
+    };
+  }
+
+  /**
+   * The metrics that have been collected so far, in the Prometheus text format.
+   */
+  public toPrometheus(): string {
+    return formatPrometheusMetrics([this]);
+  }
+}
+
+/**
+ * Escape a label value as the Prometheus text format requires.
+ * @param value The value of the label
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Format a set of labels, such as `{queue_id="abc",le="0.5"}`.
+ * @param labels The labels to format
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Format the lines of a histogram.
+ * @param name The name of the metric
+ * @param histogram The observations of the histogram
+ * @param labels The labels of the series
+ */
+function formatHistogram(
+  name: string,
+  histogram: HistogramSnapshot,
+  labels: Record<string, string>,
+): string[] {
+  return [
+    ...Object.entries(histogram.buckets).map(
+      ([le, count]) =>
+        `${name}_bucket${formatLabels({ ...labels, le })} ${count}`,
+    ),
+    `${name}_sum${formatLabels(labels)} ${histogram.sum}`,
+    `${name}_count${formatLabels(labels)} ${histogram.count}`,
+  ];
+}
+
+/**
+ * Format the metrics of one or more collectors in the Prometheus text format, so that
+ * the metrics of every consumer in a process can be served together.
+ * @param collectors The collectors to format
+ */
+export function formatPrometheusMetrics(
+  collectors: MetricsCollector[],
+): string {
+  const snapshots = collectors.map((collector) => collector.snapshot());
+  const lines: string[] = [];
+
+  function addMetric(
+    name: string,
+    type: string,
+    help: string,
+    series: (snapshot: MetricsSnapshot) => string[],
+  ): void {
+    const fullName = `${METRIC_PREFIX}_${name}`;
+
+    lines.push(`# HELP ${fullName} ${help}`, `# TYPE ${fullName} ${type}`);
+    snapshots.forEach((snapshot): void => {
+      lines.push(...series(snapshot));
+    });
+  }
+
+  COUNTERS.forEach(([counter, name, help]): void => {
+    addMetric(name, "counter", help, (snapshot) => [
+      `${METRIC_PREFIX}_${name}${formatLabels(snapshot.labels)} ${snapshot.counters[counter]}`,
+    ]);
+  });
+
+  addMetric(
+    "api_errors_total",
+    "counter",
+    "Failed requests to Cloudflare by status.",
+    (snapshot) =>
+      Object.entries(snapshot.apiErrors).map(
+        ([status, count]) =>
+          `${METRIC_PREFIX}_api_errors_total${formatLabels({ ...snapshot.labels, status })} ${count}`,
+      ),
+  );
+
+  addMetric(
+    "handler_duration_seconds",
+    "histogram",
+    "How long message handlers took.",
+    (snapshot) =>
+      formatHistogram(
+        `${METRIC_PREFIX}_handler_duration_seconds`,
+        snapshot.handlerDuration,
+        snapshot.labels,
+      ),
+  );
+
+  addMetric(
+    "api_request_duration_seconds",
+    "histogram",
+    "How long requests to Cloudflare took by operation.",
+    (snapshot) =>
+      Object.entries(snapshot.apiLatency).flatMap(([operation, histogram]) =>
+        formatHistogram(
+          `${METRIC_PREFIX}_api_request_duration_seconds`,
+          histogram,
+          { ...snapshot.labels, operation },
+        ),
+      ),
+  );
+
+  if (snapshots.some((snapshot) => snapshot.rateLimiter)) {
+    addMetric(
+      "rate_limiter_tokens",
+      "gauge",
+      "Requests that the rate limiter of the account would let through now.",
+      (snapshot) =>
+        snapshot.rateLimiter
+          ? [
+              `${METRIC_PREFIX}_rate_limiter_tokens${formatLabels(snapshot.labels)} ${snapshot.rateLimiter.tokens}`,
+            ]
+          : [],
+    );
+
+    addMetric(
+      "rate_limiter_waiting_requests",
+      "gauge",
+      "Requests waiting for the rate limiter of the account by priority.",
+      (snapshot) =>
+        Object.entries(snapshot.rateLimiter?.waiting ?? {}).map(
+          ([priority, count]) =>
+            `${METRIC_PREFIX}_rate_limiter_waiting_requests${formatLabels({ ...snapshot.labels, priority })} ${count}`,
+        ),
+    );
+
+    addMetric(
+      "rate_limiter_throttled_requests_total",
+      "counter",
+      "Requests that had to wait for the rate limiter of the account.",
+      (snapshot) =>
+        snapshot.rateLimiter
+          ? [
+              `${METRIC_PREFIX}_rate_limiter_throttled_requests_total${formatLabels(snapshot.labels)} ${snapshot.rateLimiter.throttledRequests}`,
+            ]
+          : [],
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
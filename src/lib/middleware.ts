@@ -0,0 +1,88 @@
+import type {
+  BatchResult,
+  HandlerResult,
+  Message,
+  Middleware,
+  MiddlewareContext,
+} from "../types.js";
+
+/**
+ * Create the context for a call to the handler.
+ * @param queueId The ID of the queue that the messages came from
+ * @param messages The messages that are being handled
+ * @param isBatch If the messages are being handled by `handleMessageBatch`
+ */
+export function createMiddlewareContext<TBody>(
+  queueId: string,
+  messages: Message<TBody>[],
+  isBatch: boolean,
+): MiddlewareContext<TBody> {
+  return {
+    queueId,
+    message: isBatch ? undefined : messages[0],
+    messages,
+    isBatch,
+    result: undefined,
+    state: {},
+    ack() {
+      this.result = { ack: [...messages] };
+    },
+    retry(delaySeconds?: number) {
+      this.result = {
+        retry: messages.map((message) =>
+          delaySeconds === undefined ? message : { message, delaySeconds },
+        ),
+      };
+    },
+  };
+}
+
+/**
+ * Run the middleware in the order that it was added, with the handler as the last
+ * step. The handler is only called if every middleware calls `next`, and the messages
+ * are retried when a middleware skips it without setting a result.
+ * @param middleware The middleware of the consumer
+ * @param ctx The context for this call to the handler
+ * @param handler Calls the handler and sets `ctx.result`
+ */
+export async function runMiddleware<TBody>(
+  middleware: Middleware<TBody>[],
+  ctx: MiddlewareContext<TBody>,
+  handler: () => Promise<void>,
+): Promise<void> {
+  let lastIndex = -1;
+  let handled = false;
+
+  async function dispatch(index: number): Promise<void> {
+    if (index <= lastIndex) {
+      throw new Error("next() was called more than once by a middleware.");
+    }
+    lastIndex = index;
+
+    if (index === middleware.length) {
+      handled = true;
+      return handler();
+    }
+
+    await middleware[index](ctx, () => dispatch(index + 1));
+  }
+
+  await dispatch(0);
+
+  if (!handled && ctx.result === undefined) {
+    ctx.retry();
+  }
+}
+
+/**
+ * Determine if a handler result decides the outcome of each message, rather than
+ * listing the messages to acknowledge.
+ * @param result The result of the handler
+ */
+export function isBatchResult<TBody>(
+  result: HandlerResult<TBody>,
+): result is BatchResult<TBody> {
+  return (
+    result instanceof Object && !Array.isArray(result) && !("id" in result)
+  );
+}
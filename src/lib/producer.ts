@@ -0,0 +1,191 @@
+import { serialize } from "node:v8";
+
+import type {
+  ProducerOptions,
+  RetryPolicy,
+  QueueContentType,
+  SendBatchEntry,
+  SendMessageBatchResponse,
+  SendMessageRequest,
+  SendMessageResponse,
+  SendOptions,
+} from "../types.js";
+import { assertProducerOptions, validateOption } from "../utils/validation.js";
+import { queuesClient } from "./cloudflare.js";
+import { CredentialsCache } from "./credentials.js";
+import { toProviderError } from "../utils/errors.js";
+import { type RateLimiter, sharedRateLimiter } from "../utils/rateLimiter.js";
+
+/**
+ * Work out which content type a message body should be sent as.
+ * @param body The body of the message
+ */
+function detectContentType(body: unknown): QueueContentType {
+  if (typeof body === "string") {
+    return "text";
+  }
+
+  if (body instanceof Uint8Array) {
+    return "bytes";
+  }
+
+  return "json";
+}
+
+/**
+ * Encode a message body so that it can be sent to the Cloudflare Queues REST API,
+ * binary content types are sent as base64.
+ * @param body The body of the message
+ * @param contentType The content type to send the body as
+ */
+function encodeBody(body: unknown, contentType: QueueContentType): unknown {
+  switch (contentType) {
+    case "bytes":
+      return Buffer.from(body as Uint8Array).toString("base64");
+    case "v8":
+      return serialize(body).toString("base64");
+    case "text":
+      return String(body);
+    default:
+      return body;
+  }
+}
+
+/**
+ * Build the request for a single message.
+ * @param body The body of the message
+ * @param options The options for the message
+ */
+export function toSendMessageRequest(
+  body: unknown,
+  options: SendOptions = {},
+): SendMessageRequest {
+  const contentType = options.contentType ?? detectContentType(body);
+  const request: SendMessageRequest = {
+    body: encodeBody(body, contentType),
+    content_type: contentType,
+  };
+
+  if (options.delaySeconds !== undefined) {
+    validateOption("delaySeconds", options.delaySeconds);
+    request.delay_seconds = options.delaySeconds;
+  }
+
+  return request;
+}
+
+/**
+ * [Usage](https://bbc.github.io/cloudflare-queue-consumer/index.html#producing-messages)
+ */
+export class Producer {
+  private accountId: string;
+  private queueId: string;
+  private credentials: CredentialsCache;
+  private apiBaseUrl?: string;
+  private retryPolicy?: RetryPolicy;
+  private rateLimiter?: RateLimiter;
+
+  /**
+   * Create a new producer
+   * @param options The options for the producer
+   */
+  constructor(options: ProducerOptions) {
+    assertProducerOptions(options);
+    this.accountId = options.accountId;
+    this.queueId = options.queueId;
+    this.credentials = new CredentialsCache(options.credentials);
+    this.apiBaseUrl = options.apiBaseUrl;
+    this.retryPolicy = options.retryPolicy;
+
+    if (options.rateLimit) {
+      this.rateLimiter = sharedRateLimiter(
+        options.accountId,
+        options.rateLimit === true ? {} : options.rateLimit,
+      );
+    }
+  }
+
+  /**
+   * Creates a new producer.
+   */
+  public static create(options: ProducerOptions): Producer {
+    return new Producer(options);
+  }
+
+  /**
+   * Send a single message to the queue.
+   * @param body The body of the message
+   * @param options The options for the message
+   */
+  public async send(
+    body: unknown,
+    options?: SendOptions,
+  ): Promise<SendMessageResponse> {
+    const request = toSendMessageRequest(body, options);
+
+    try {
+      const result = await queuesClient<SendMessageResponse>({
+        path: "messages",
+        method: "POST",
+        body: request,
+        accountId: this.accountId,
+        queueId: this.queueId,
+        credentials: this.credentials,
+        baseUrl: this.apiBaseUrl,
+        retryPolicy: this.retryPolicy,
+        rateLimiter: this.rateLimiter,
+      });
+
+      if (!result.success) {
+        throw new Error("Message could not be sent.");
+      }
+
+      return result;
+    } catch (err) {
+      throw toProviderError(err, `Send message failed: ${err.message}`);
+    }
+  }
+
+  /**
+   * Send a batch of messages to the queue in a single request.
+   * @param entries The messages to send
+   * @param options The options that apply to the whole batch
+   */
+  public async sendBatch(
+    entries: SendBatchEntry[],
+    options?: Pick<SendOptions, "delaySeconds">,
+  ): Promise<SendMessageBatchResponse> {
+    const body: Record<string, unknown> = {
+      messages: entries.map(({ body, ...entryOptions }) =>
+        toSendMessageRequest(body, entryOptions),
+      ),
+    };
+
+    if (options?.delaySeconds !== undefined) {
+      validateOption("delaySeconds", options.delaySeconds);
+      body.delay_seconds = options.delaySeconds;
+    }
+
+    try {
+      const result = await queuesClient<SendMessageBatchResponse>({
+        path: "messages/batch",
+        method: "POST",
+        body,
+        accountId: this.accountId,
+        queueId: this.queueId,
+        credentials: this.credentials,
+        baseUrl: this.apiBaseUrl,
+        retryPolicy: this.retryPolicy,
+        rateLimiter: this.rateLimiter,
+      });
+
+      if (!result.success) {
+        throw new Error("Message batch could not be sent.");
+      }
+
+      return result;
+    } catch (err) {
+      throw toProviderError(err, `Send message batch failed: ${err.message}`);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import type {
+  Message,
+  RetryDelayStrategy,
+  RetryDelayStrategyOptions,
+} from "../types.js";
+
+/**
+ * The longest delay (in seconds) that Cloudflare allows for a retry.
+ */
+export const MAX_RETRY_DELAY_SECONDS = 42300;
+
+/**
+ * Keep a delay within the range that Cloudflare allows.
+ * @param delaySeconds The delay that was calculated
+ * @param maxSeconds The longest delay that was configured
+ */
+export function capRetryDelay(
+  delaySeconds: number,
+  maxSeconds = MAX_RETRY_DELAY_SECONDS,
+): number {
+  const max = Math.min(maxSeconds, MAX_RETRY_DELAY_SECONDS);
+
+  return Math.round(Math.min(max, Math.max(0, delaySeconds)));
+}
+
+/**
+ * The number of the retry that is about to happen, messages are delivered with an
+ * `attempts` count of at least 1.
+ * @param message The message that is being retried
+ */
+function retryNumber(message: Message): number {
+  return Math.max(1, message.attempts ?? 1);
+}
+
+/**
+ * Double the delay with every attempt: `baseSeconds`, `2 * baseSeconds`,
+ * `4 * baseSeconds`...
+ * @param options The options for the strategy
+ */
+export function exponentialRetryDelay({
+  baseSeconds = 10,
+  maxSeconds,
+}: RetryDelayStrategyOptions = {}): RetryDelayStrategy {
+  return (message) =>
+    capRetryDelay(baseSeconds * 2 ** (retryNumber(message) - 1), maxSeconds);
+}
+
+/**
+ * Increase the delay by `baseSeconds` with every attempt: `baseSeconds`,
+ * `2 * baseSeconds`, `3 * baseSeconds`...
+ * @param options The options for the strategy
+ */
+export function linearRetryDelay({
+  baseSeconds = 10,
+  maxSeconds,
+}: RetryDelayStrategyOptions = {}): RetryDelayStrategy {
+  return (message) =>
+    capRetryDelay(baseSeconds * retryNumber(message), maxSeconds);
+}
+
+/**
+ * Pick a random delay between `baseSeconds` and three times the previous delay, which
+ * spreads out retries of messages that failed at the same time. As previous delays
+ * aren't stored, they are assumed to have tripled with each attempt.
+ * @param options The options for the strategy
+ */
+export function decorrelatedJitterRetryDelay({
+  baseSeconds = 10,
+  maxSeconds,
+}: RetryDelayStrategyOptions = {}): RetryDelayStrategy {
+  return (message) => {
+    const previous = capRetryDelay(
+      baseSeconds * 3 ** (retryNumber(message) - 1),
+      maxSeconds,
+    );
+    const upper = Math.max(baseSeconds, previous * 3);
+
+    return capRetryDelay(
+      baseSeconds + Math.random() * (upper - baseSeconds),
+      maxSeconds,
+    );
+  };
+}
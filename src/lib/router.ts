@@ -0,0 +1,139 @@
+import type {
+  BatchResult,
+  Message,
+  RouteHandler,
+  RouterFallback,
+  RouterOptions,
+} from "../types.js";
+import { assertRouterOptions } from "../utils/validation.js";
+import { isBatchResult } from "./middleware.js";
+
+/**
+ * Add the outcome of one message to the result of a batch, a message is acknowledged
+ * when its handler returns nothing or the message itself.
+ * @param result The result of the batch
+ * @param message The message that was handled
+ * @param outcome What the handler of the message returned
+ */
+function addOutcome<TBody>(
+  result: Required<BatchResult<TBody>>,
+  message: Message<TBody>,
+  outcome: Message<TBody> | BatchResult<TBody> | void,
+): void {
+  if (isBatchResult(outcome)) {
+    result.ack.push(...(outcome.ack ?? []));
+    result.retry.push(...(outcome.retry ?? []));
+    result.deadLetter.push(...(outcome.deadLetter ?? []));
+  } else if (!(outcome instanceof Object) || outcome.id === message.id) {
+    result.ack.push(message);
+  }
+}
+
+/**
+ * Dispatches messages to a handler for their type, so that a queue that carries
+ * several types of message doesn't need one handler that switches between them.
+ * `handleMessage` and `handleMessageBatch` can be passed straight to a consumer.
+ */
+export class Router<TBody = unknown> {
+  private discriminator: (message: Message<TBody>) => string | undefined;
+  private fallback: RouterFallback | RouteHandler<TBody>;
+  private onError?: RouterOptions<TBody>["onError"];
+  private routes = new Map<string, RouteHandler<TBody>>();
+
+  /**
+   * Create a new router
+   * @param options The options for the router
+   */
+  constructor(options: RouterOptions<TBody>) {
+    assertRouterOptions(options);
+
+    const { discriminator } = options;
+
+    this.discriminator =
+      typeof discriminator === "function"
+        ? discriminator
+        : (message) => {
+            const type = message.body?.[discriminator];
+            return type === undefined ? undefined : String(type);
+          };
+    this.fallback = options.fallback ?? "retry";
+    this.onError = options.onError;
+    this.handleMessage = this.handleMessage.bind(this);
+    this.handleMessageBatch = this.handleMessageBatch.bind(this);
+  }
+
+  /**
+   * Add the handler for a type of message.
+   * @param type The type that the discriminator returns for these messages
+   * @param handler The handler for the messages
+   */
+  public route(type: string, handler: RouteHandler<TBody>): this {
+    if (typeof handler !== "function") {
+      throw new Error(`The handler for ${type} must be a function.`);
+    }
+
+    if (this.routes.has(type)) {
+      throw new Error(`The type ${type} already has a handler.`);
+    }
+
+    this.routes.set(type, handler);
+    return this;
+  }
+
+  /**
+   * Call the handler for the type of a message, or the fallback if there isn't one.
+   * @param message The message to handle
+   */
+  public async handleMessage(
+    message: Message<TBody>,
+  ): Promise<Message<TBody> | BatchResult<TBody> | void> {
+    const handler = this.routes.get(this.discriminator(message));
+
+    if (handler) {
+      return handler(message);
+    }
+
+    switch (this.fallback) {
+      case "ack":
+        return { ack: [message] };
+      case "retry":
+        return { retry: [message] };
+      case "deadLetter":
+        return { deadLetter: [message] };
+      default:
+        return this.fallback(message);
+    }
+  }
+
+  /**
+   * Call the handler for the type of each message in a batch at once. Messages whose
+   * handler fails are passed to `onError` and left out of the result, or retried when
+   * there is no `onError`.
+   * @param messages The messages to handle
+   */
+  public async handleMessageBatch(
+    messages: Message<TBody>[],
+  ): Promise<BatchResult<TBody>> {
+    const result: Required<BatchResult<TBody>> = {
+      ack: [],
+      retry: [],
+      deadLetter: [],
+    };
+
+    await Promise.all(
+      messages.map(async (message) => {
+        try {
+          addOutcome(result, message, await this.handleMessage(message));
+        } catch (err) {
+          if (this.onError) {
+            this.onError(err, message);
+          } else {
+            result.retry.push(message);
+          }
+        }
+      }),
+    );
+
+    return result;
+  }
+}
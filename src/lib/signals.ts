@@ -0,0 +1,132 @@
+import type { SignalHandlingOptions, StopOptions } from "../types.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * The parts of a consumer that signal handling needs.
+ */
+export interface StoppableConsumer {
+  stop(options?: StopOptions): Promise<void>;
+  emit(event: "signal_received", signal: NodeJS.Signals): boolean;
+}
+
+interface Registration {
+  signals: NodeJS.Signals[];
+  timeoutMs?: number;
+  signalCount: number;
+}
+
+const DEFAULT_SIGNALS: NodeJS.Signals[] = ["SIGTERM", "SIGINT"];
+
+// Shared by every consumer in the process so that each signal only has one listener
+const registrations = new Map<StoppableConsumer, Registration>();
+const listeners = new Map<NodeJS.Signals, () => void>();
+
+/**
+ * Send the signal again once the consumers that it stopped have detached, so that
+ * Node's default behaviour of exiting the process applies. Applications that listen
+ * for the signal themselves are left to exit on their own.
+ * @param signal The signal that the process received
+ */
+function resendSignal(signal: NodeJS.Signals): void {
+  if (process.listenerCount(signal) === 0) {
+    process.kill(process.pid, signal);
+  }
+}
+
+/**
+ * Stop every consumer that is listening for the signal, draining them the first time
+ * and aborting them the second time.
+ * @param signal The signal that the process received
+ */
+function handleSignal(signal: NodeJS.Signals): void {
+  logger.debug("signal_received", { signal });
+
+  const stops: Promise<void>[] = [];
+
+  registrations.forEach((registration, consumer): void => {
+    if (!registration.signals.includes(signal)) {
+      return;
+    }
+
+    registration.signalCount++;
+    consumer.emit("signal_received", signal);
+
+    const stopping =
+      registration.signalCount === 1
+        ? consumer.stop({
+            waitForInFlight: true,
+            timeoutMs: registration.timeoutMs,
+          })
+        : consumer.stop({ abort: true });
+
+    stops.push(
+      stopping
+        .catch((err): void => {
+          logger.debug("signal_stop_failed", { signal, error: err?.message });
+        })
+        .finally(() => detachFromProcess(consumer)),
+    );
+  });
+
+  if (stops.length > 0) {
+    Promise.all(stops).then(() => resendSignal(signal));
+  }
+}
+
+/**
+ * Add or remove the process listeners so that there is exactly one for each signal
+ * that a registered consumer is listening for.
+ */
+function syncListeners(): void {
+  const wanted = new Set<NodeJS.Signals>();
+
+  registrations.forEach(({ signals }): void => {
+    signals.forEach((signal) => wanted.add(signal));
+  });
+
+  listeners.forEach((listener, signal): void => {
+    if (!wanted.has(signal)) {
+      process.off(signal, listener);
+      listeners.delete(signal);
+    }
+  });
+
+  wanted.forEach((signal): void => {
+    if (!listeners.has(signal)) {
+      const listener = handleSignal.bind(null, signal);
+      process.on(signal, listener);
+      listeners.set(signal, listener);
+    }
+  });
+}
+
+/**
+ * Gracefully stop the consumer when the process receives a termination signal. The
+ * first signal drains the consumer, a second one aborts it.
+ * @param consumer The consumer to stop
+ * @param options The signals to listen for and how long to drain for
+ * @returns A function that stops listening for the signals
+ */
+export function attachToProcess(
+  consumer: StoppableConsumer,
+  options: SignalHandlingOptions = {},
+): () => void {
+  registrations.set(consumer, {
+    signals: options.signals ?? DEFAULT_SIGNALS,
+    timeoutMs: options.timeoutMs,
+    signalCount: 0,
+  });
+  syncListeners();
+
+  return () => detachFromProcess(consumer);
+}
+
+/**
+ * Stop listening for signals for a consumer.
+ * @param consumer The consumer that was attached
+ */
+export function detachFromProcess(consumer: StoppableConsumer): void {
+  if (registrations.delete(consumer)) {
+    syncListeners();
+  }
+}
@@ -0,0 +1,119 @@
+import type {
+  Message,
+  Span,
+  SpanContext,
+  SpanOptions,
+  TracingOptions,
+} from "../types.js";
+
+/**
+ * The values of the OpenTelemetry `SpanKind` enum that the consumer uses.
+ */
+export const SPAN_KIND = {
+  internal: 0,
+  client: 2,
+  consumer: 4,
+};
+
+/**
+ * The value of the OpenTelemetry `SpanStatusCode.ERROR`.
+ */
+const SPAN_STATUS_ERROR = 2;
+
+const TRACEPARENT_PATTERN =
+  /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})$/;
+
+/**
+ * Parse a W3C `traceparent`, such as
+ * `00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`.
+ * @param traceparent The value to parse
+ * @returns The span context, or `undefined` if the value isn't a valid `traceparent`
+ */
+export function parseTraceparent(
+  traceparent: unknown,
+): SpanContext | undefined {
+  if (typeof traceparent !== "string") {
+    return undefined;
+  }
+
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+
+  if (
+    !match ||
+    match[1] === "ff" ||
+    /^0+$/.test(match[2]) ||
+    /^0+$/.test(match[3])
+  ) {
+    return undefined;
+  }
+
+  return {
+    traceId: match[2],
+    spanId: match[3],
+    traceFlags: parseInt(match[4], 16),
+    isRemote: true,
+  };
+}
+
+/**
+ * Find the span context of the producer from a `traceparent` property in the body of
+ * a message.
+ * @param message The message that was received
+ */
+export function extractSpanContext(message: Message): SpanContext | undefined {
+  if (!message.body || typeof message.body !== "object") {
+    return undefined;
+  }
+
+  return parseTraceparent(message.body["traceparent"]);
+}
+
+function isSpan(value: Span | SpanContext | undefined): value is Span {
+  return typeof (value as Span)?.spanContext === "function";
+}
+
+/**
+ * Run a function within a span, recording any error that it throws. Without a
+ * `setSpanContext` function, the span links to its parent instead.
+ * @param tracing The tracing options, the function is run without a span when unset
+ * @param name The name of the span
+ * @param options The options for the span
+ * @param parent The parent of the span
+ * @param fn The function to run
+ */
+export async function withSpan<T>(
+  tracing: TracingOptions | undefined,
+  name: string,
+  options: SpanOptions,
+  parent: Span | SpanContext | undefined,
+  fn: (span?: Span) => Promise<T>,
+): Promise<T> {
+  if (!tracing) {
+    return fn();
+  }
+
+  const parentContext = isSpan(parent) ? parent.spanContext() : parent;
+  let context: unknown;
+  let spanOptions = options;
+
+  if (parentContext && tracing.setSpanContext) {
+    context = tracing.setSpanContext(parentContext);
+  } else if (parentContext) {
+    spanOptions = {
+      ...options,
+      links: [...(options.links ?? []), { context: parentContext }],
+    };
+  }
+
+  const span = tracing.tracer.startSpan(name, spanOptions, context);
+
+  try {
+    return await fn(span);
+  } catch (err) {
+    span.recordException(err);
+    span.setStatus({ code: SPAN_STATUS_ERROR, message: err?.message });
+    throw err;
+  } finally {
+    span.end();
+  }
+}
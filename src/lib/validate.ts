@@ -0,0 +1,61 @@
+import type {
+  Message,
+  MessageValidator,
+  StandardSchema,
+  ValidationIssue,
+} from "../types.js";
+import { toValidationError } from "../utils/errors.js";
+
+/**
+ * Determine if the validator is a Standard Schema rather than a predicate.
+ * @param validator The validator that was provided by the application
+ */
+function isStandardSchema<TBody>(
+  validator: MessageValidator<TBody>,
+): validator is StandardSchema<TBody> {
+  return typeof validator?.["~standard"]?.validate === "function";
+}
+
+/**
+ * Run the validator against a decoded message.
+ * @param message The message with a decoded body
+ * @param validator The validator that was provided by the application
+ * @returns The message to pass to the handler, with the schema's output as the body
+ * @throws ValidationError if the message is not valid
+ */
+export async function validateMessage<TBody>(
+  message: Message<TBody>,
+  validator: MessageValidator<TBody>,
+): Promise<Message<TBody>> {
+  let issues: readonly ValidationIssue[];
+
+  try {
+    if (isStandardSchema(validator)) {
+      const result = await validator["~standard"].validate(message.body);
+
+      if (!result.issues && "value" in result) {
+        return { ...message, body: result.value };
+      }
+
+      issues = result.issues;
+    } else if (await validator(message)) {
+      return message;
+    } else {
+      issues = [
+        { message: "The message was rejected by the validate function." },
+      ];
+    }
+  } catch (err) {
+    const error = toValidationError(
+      [{ message: err?.message ?? String(err) }],
+      `The message failed validation: ${err?.message ?? err}`,
+    );
+    error.cause = err;
+    throw error;
+  }
+
+  throw toValidationError(
+    issues,
+    `The message failed validation: ${issues.map((issue) => issue.message).join(", ")}`,
+  );
+}
@@ -1,7 +1,610 @@
+/**
+ * A function that provides a Cloudflare API token, for example from a secrets manager.
+ */
+export type CredentialsProvider = () => string | Promise<string>;
+
+/**
+ * Either a static Cloudflare API token or a function that provides one.
+ */
+export type Credentials = string | CredentialsProvider;
+
+/**
+ * Controls how requests to the Cloudflare API are retried.
+ */
+export interface RetryPolicy {
+  /**
+   * The maximum number of times a request will be attempted, including the first.
+   * @defaultvalue `5`
+   */
+  maxAttempts?: number;
+  /**
+   * The delay (in milliseconds) that is doubled after each failed attempt.
+   * @defaultvalue `100`
+   */
+  baseDelayMs?: number;
+  /**
+   * The longest delay (in milliseconds) between two attempts, this also caps the
+   * value of any `Retry-After` header.
+   * @defaultvalue `10000`
+   */
+  maxDelayMs?: number;
+  /**
+   * How the delay should be randomised, `full` picks a delay between zero and the
+   * exponential delay, `equal` picks one between half of it and all of it.
+   * @defaultvalue `"full"`
+   */
+  jitter?: "none" | "full" | "equal";
+  /**
+   * The response status codes that should be retried. Network errors are retried for
+   * pulls and acknowledgements, but not for sends as the message may have been
+   * received and sending it again would publish it twice.
+   * @defaultvalue `[429, 502, 503, 504]`
+   */
+  retryableStatusCodes?: number[];
+}
+
+/**
+ * Details of a request to the Cloudflare API that is about to be retried.
+ */
+export interface RequestRetry {
+  /**
+   * The number of the attempt that failed.
+   */
+  attempt: number;
+  /**
+   * How long (in milliseconds) the client will wait before the next attempt.
+   */
+  delayMs: number;
+  /**
+   * Why the attempt failed.
+   */
+  reason: string;
+  /**
+   * The API path that was requested.
+   */
+  path: string;
+}
+
+/**
+ * An issue that was found while validating a message.
+ */
+export interface ValidationIssue {
+  /**
+   * A description of the issue.
+   */
+  readonly message: string;
+  /**
+   * The path to the part of the body that the issue is about.
+   */
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[];
+}
+
+/**
+ * The result of validating a value with a Standard Schema.
+ */
+export type StandardSchemaResult<TOutput = unknown> =
+  | { readonly value: TOutput; readonly issues?: undefined }
+  | { readonly issues: readonly ValidationIssue[] };
+
+/**
+ * A schema that implements the [Standard Schema](https://standardschema.dev) interface.
+ */
+export interface StandardSchema<TOutput = unknown> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    validate(
+      value: unknown,
+    ): StandardSchemaResult<TOutput> | Promise<StandardSchemaResult<TOutput>>;
+  };
+}
+
+/**
+ * Either a function that returns `true` for valid messages or a Standard Schema that
+ * the message body is validated against.
+ */
+export type MessageValidator<TBody = unknown> =
+  | ((message: Message<TBody>) => boolean | Promise<boolean>)
+  | StandardSchema<TBody>;
+
+/**
+ * What the consumer does with messages that fail validation.
+ */
+export type InvalidMessageAction = "ack" | "retry" | "emit";
+
+/**
+ * A function that receives messages that have reached `maxAttempts`, along with the
+ * error from their last attempt.
+ */
+export type DeadLetterHandler = (
+  message: Message,
+  error: Error,
+) => void | Promise<void>;
+
+/**
+ * Sends messages that have reached `maxAttempts` to another queue.
+ */
+export interface DeadLetterQueue {
+  /**
+   * The ID of the queue to send the messages to.
+   */
+  queueId: string;
+  /**
+   * The account that the queue belongs to, defaults to the consumer's `accountId`.
+   */
+  accountId?: string;
+}
+
+/**
+ * Appends messages that have reached `maxAttempts` to a local file, one JSON object
+ * per line.
+ */
+export interface DeadLetterFile {
+  /**
+   * The path of the file to append to.
+   */
+  file: string;
+}
+
+/**
+ * Where messages that have reached `maxAttempts` are sent.
+ */
+export type DeadLetterSink =
+  | DeadLetterHandler
+  | DeadLetterQueue
+  | DeadLetterFile;
+
+/**
+ * Works out how long to delay a message for before it is retried (in seconds).
+ */
+export type RetryDelayStrategy = (message: Message, error?: Error) => number;
+
+/**
+ * The options for the built-in retry delay strategies.
+ */
+export interface RetryDelayStrategyOptions {
+  /**
+   * The delay (in seconds) for the first retry.
+   * @defaultvalue `10`
+   */
+  baseSeconds?: number;
+  /**
+   * The longest delay (in seconds), this can't be more than 42300.
+   * @defaultvalue `42300`
+   */
+  maxSeconds?: number;
+}
+
+/**
+ * A message that should be retried and how long (in seconds) to delay it for.
+ */
+export interface MessageRetry {
+  message: Message;
+  delaySeconds: number;
+}
+
+/**
+ * A message that the batch handler wants to retry.
+ */
+export interface BatchRetry<TBody = unknown> {
+  message: Message<TBody>;
+  /**
+   * How long (in seconds) to delay the message for, `retryMessageDelay` is used if
+   * this isn't set.
+   */
+  delaySeconds?: number;
+}
+
+/**
+ * The outcome of each message in a batch. The acknowledgements and retries are sent
+ * together in one request, messages that aren't listed are left for the visibility
+ * timeout.
+ */
+export interface BatchResult<TBody = unknown> {
+  /**
+   * The messages that have been processed and should be acknowledged.
+   */
+  ack?: Message<TBody>[];
+  /**
+   * The messages that should be retried.
+   */
+  retry?: (Message<TBody> | BatchRetry<TBody>)[];
+  /**
+   * The messages that should be sent to the `deadLetter` sink and then acknowledged.
+   */
+  deadLetter?: Message<TBody>[];
+}
+
+/**
+ * What a handler can return, `handleMessage` returns a message and
+ * `handleMessageBatch` returns an array of messages or a `BatchResult`.
+ */
+export type HandlerResult<TBody = unknown> =
+  | Message<TBody>
+  | Message<TBody>[]
+  | BatchResult<TBody>
+  | void;
+
+/**
+ * The context that is passed through the middleware of a consumer for each call to
+ * the handler.
+ */
+export interface MiddlewareContext<TBody = unknown> {
+  queueId: string;
+  /**
+   * The message that is being handled, when `handleMessage` is used.
+   */
+  message?: Message<TBody>;
+  /**
+   * The messages that are being handled, which is just `message` when
+   * `handleMessage` is used.
+   */
+  messages: Message<TBody>[];
+  /**
+   * If the messages are being handled by `handleMessageBatch`.
+   */
+  isBatch: boolean;
+  /**
+   * The result of the handler once `next` has resolved, it can be replaced to change
+   * what happens to the messages. It holds the messages when `alwaysAcknowledge` is
+   * set, and a result that middleware sets is used even then.
+   */
+  result?: HandlerResult<TBody>;
+  /**
+   * Somewhere for middleware to share values with each other.
+   */
+  state: Record<string, unknown>;
+  /**
+   * Acknowledge every message, call this instead of `next` to skip the handler.
+   */
+  ack(): void;
+  /**
+   * Retry every message, call this instead of `next` to skip the handler.
+   * @param delaySeconds The delay before the messages are retried, `retryMessageDelay`
+   * is used by default
+   */
+  retry(delaySeconds?: number): void;
+}
+
+/**
+ * What happens to messages that a `Router` has no handler for.
+ */
+export type RouterFallback = "ack" | "retry" | "deadLetter";
+
+/**
+ * Handles the messages of one type for a `Router`.
+ */
+export type RouteHandler<TBody = unknown> = (
+  message: Message<TBody>,
+) => Promise<Message<TBody> | BatchResult<TBody> | void>;
+
+/**
+ * The options for a `Router`.
+ */
+export interface RouterOptions<TBody = unknown> {
+  /**
+   * Works out the type of a message, either the name of a property of the message
+   * body or a function, for example one that reads the `CF-sourceMessageSource`
+   * metadata.
+   */
+  discriminator: string | ((message: Message<TBody>) => string | undefined);
+  /**
+   * What happens to messages of a type without a handler, `ack`, `retry`,
+   * `deadLetter` or a handler for every unknown type.
+   * @defaultvalue `retry`
+   */
+  fallback?: RouterFallback | RouteHandler<TBody>;
+  /**
+   * Called when a handler fails in `handleMessageBatch`, the message is left out of
+   * the result so that it is received again after the visibility timeout. Messages
+   * whose handler fails are retried when this is not set.
+   */
+  onError?(error: Error, message: Message<TBody>): void;
+}
+
+/**
+ * A function that wraps the handler of a consumer, it calls `next` to run the next
+ * middleware and then the handler. When a middleware skips the handler without calling
+ * `ctx.ack()`, `ctx.retry()` or setting `ctx.result`, the messages are retried.
+ */
+export type Middleware<TBody = unknown> = (
+  ctx: MiddlewareContext<TBody>,
+  next: () => Promise<void>,
+) => void | Promise<void>;
+
+/**
+ * The options for adaptive polling.
+ */
+export interface AdaptivePollingOptions {
+  /**
+   * The longest time (in milliseconds) to wait between polls.
+   * @defaultvalue `30000`
+   */
+  maxPollingWaitTimeMs?: number;
+  /**
+   * How much the wait is multiplied by after each consecutive empty poll.
+   * @defaultvalue `2`
+   */
+  backoffMultiplier?: number;
+  /**
+   * The fraction of the wait that is randomly added or taken away from it, between
+   * `0` and `1`.
+   * @defaultvalue `0.2`
+   */
+  jitter?: number;
+}
+
+/**
+ * The state of a circuit breaker.
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * The options for the circuit breaker around requests to Cloudflare.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * The number of consecutive failed requests that opens the circuit.
+   * @defaultvalue `5`
+   */
+  failureThreshold?: number;
+  /**
+   * How long (in milliseconds) the circuit stays open before a probe poll is sent.
+   * @defaultvalue `30000`
+   */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * The priority of a request to Cloudflare, pulls are `low` priority and every other
+ * request is `high` priority.
+ */
+export type RequestPriority = "high" | "low";
+
+/**
+ * The options for the rate limiter that is shared by every request to an account.
+ */
+export interface RateLimitOptions {
+  /**
+   * The number of requests that can be made each second, on average.
+   * @defaultvalue `4`
+   */
+  requestsPerSecond?: number;
+  /**
+   * The number of requests that can be made at once after a quiet period.
+   * @defaultvalue `20`
+   */
+  burst?: number;
+  /**
+   * The number of requests that are kept for acknowledgements and sends, pulls wait
+   * instead of using them.
+   * @defaultvalue a quarter of `burst`
+   */
+  reservedTokens?: number;
+}
+
+/**
+ * The state of a rate limiter.
+ */
+export interface RateLimiterState {
+  accountId: string;
+  /**
+   * The number of requests that can be made right now.
+   */
+  tokens: number;
+  capacity: number;
+  requestsPerSecond: number;
+  /**
+   * The number of requests that are waiting, by priority.
+   */
+  waiting: Record<RequestPriority, number>;
+  /**
+   * The number of requests that have had to wait.
+   */
+  throttledRequests: number;
+}
+
+/**
+ * The options for the metrics collector.
+ */
+export interface MetricsOptions {
+  /**
+   * Add a `queue_id` label to every metric.
+   * @defaultvalue `true`
+   */
+  includeQueueId?: boolean;
+  /**
+   * Labels that are added to every metric, such as the name of the service.
+   */
+  labels?: Record<string, string>;
+  /**
+   * The upper bounds (in seconds) of the buckets for the handler duration and API
+   * latency histograms.
+   * @defaultvalue `[0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]`
+   */
+  buckets?: number[];
+}
+
+/**
+ * The counters that are tracked by the metrics collector.
+ */
+export interface MetricsCounters {
+  messagesReceived: number;
+  messagesAcknowledged: number;
+  messagesRetried: number;
+  messagesFailed: number;
+  messagesTimedOut: number;
+  polls: number;
+  emptyPolls: number;
+}
+
+/**
+ * The observations of a histogram, in seconds.
+ */
+export interface HistogramSnapshot {
+  /**
+   * The cumulative number of observations for each upper bound.
+   */
+  buckets: Record<string, number>;
+  sum: number;
+  count: number;
+}
+
+/**
+ * A point in time copy of the metrics that have been collected.
+ */
+export interface MetricsSnapshot {
+  labels: Record<string, string>;
+  counters: MetricsCounters;
+  /**
+   * The number of failed requests to Cloudflare by status code, or `network` for
+   * requests that didn't get a response.
+   */
+  apiErrors: Record<string, number>;
+  handlerDuration: HistogramSnapshot;
+  /**
+   * The latency of requests to Cloudflare by operation, `pull` or `ack`.
+   */
+  apiLatency: Record<string, HistogramSnapshot>;
+  /**
+   * The state of the rate limiter of the account, when `rateLimit` is set.
+   */
+  rateLimiter?: RateLimiterState;
+}
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Identifies a span within a trace, compatible with the `SpanContext` of
+ * `@opentelemetry/api`.
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  isRemote?: boolean;
+}
+
+/**
+ * The options for starting a span, compatible with the `SpanOptions` of
+ * `@opentelemetry/api`.
+ */
+export interface SpanOptions {
+  kind?: number;
+  attributes?: SpanAttributes;
+  links?: { context: SpanContext; attributes?: SpanAttributes }[];
+}
+
+/**
+ * The parts of an `@opentelemetry/api` `Span` that the consumer uses.
+ */
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+/**
+ * The parts of an `@opentelemetry/api` `Tracer` that the consumer uses.
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions, context?: unknown): Span;
+}
+
+/**
+ * The options for tracing the consumer.
+ */
+export interface TracingOptions {
+  /**
+   * The tracer that spans are started with, such as `trace.getTracer("consumer")`.
+   */
+  tracer: Tracer;
+  /**
+   * Create the context that is passed to `startSpan` for a span with a parent, such as
+   * `(spanContext) => trace.setSpanContext(context.active(), spanContext)`. Without
+   * it, spans are started without a parent and link to it instead.
+   */
+  setSpanContext?(spanContext: SpanContext): unknown;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A structured logger, such as pino. Each level is called with the fields of the log
+ * first and the message second.
+ */
+export interface Logger {
+  debug(fields: LogFields, message: string): void;
+  info(fields: LogFields, message: string): void;
+  warn(fields: LogFields, message: string): void;
+  error(fields: LogFields, message: string): void;
+}
+
+/**
+ * The thresholds that decide whether a consumer is healthy.
+ */
+export interface HealthThresholds {
+  /**
+   * The longest time (in milliseconds) since the last successful poll, or since the
+   * consumer started if it hasn't polled successfully yet.
+   * @defaultvalue `300000`
+   */
+  maxPollAgeMs?: number;
+  /**
+   * The number of consecutive failed polls that makes the consumer unhealthy.
+   * @defaultvalue `5`
+   */
+  maxConsecutivePollErrors?: number;
+  /**
+   * The number of consecutive failed acknowledgement requests that makes the consumer
+   * unhealthy.
+   * @defaultvalue `5`
+   */
+  maxConsecutiveAckErrors?: number;
+}
+
+/**
+ * A report of the health of a consumer.
+ */
+export interface HealthReport {
+  /**
+   * If the consumer is running and within all of the `healthThresholds`. The poll and
+   * acknowledgement thresholds are ignored while the circuit breaker is open, as an
+   * outage of the Cloudflare API isn't fixed by restarting the consumer.
+   */
+  healthy: boolean;
+  /**
+   * If the consumer is healthy, has polled successfully and its circuit breaker isn't
+   * open, so it is ready to work.
+   */
+  ready: boolean;
+  /**
+   * Why the consumer is unhealthy or not ready.
+   */
+  reasons: string[];
+  queueId: string;
+  isRunning: boolean;
+  lastPollAt?: Date;
+  lastAckAt?: Date;
+  consecutivePollErrors: number;
+  consecutiveAckErrors: number;
+  inFlightMessages: number;
+  /**
+   * The state of the circuit breaker, when `circuitBreaker` is set.
+   */
+  circuitState?: CircuitState;
+}
+
 /**
  * The options for the consumer.
+ *
+ * `TBody` is the type of the message bodies once they have been decoded.
  */
-export interface ConsumerOptions {
+export interface ConsumerOptions<TBody = unknown> {
   /**
    * The number of messages to request from Cloudflare when polling (default `10`).
    * @defaultvalue `10`
@@ -10,6 +613,10 @@ export interface ConsumerOptions {
   /**
    * The duration (in milliseconds) that the received messages are hidden from subsequent
    * retrieve requests after being retrieved by a ReceiveMessage request.
+   *
+   * Cloudflare can't extend the lease of a message, so set this higher than the
+   * longest time that your handler takes or messages will be redelivered while they
+   * are still being handled.
    * @defaultvalue 1000
    */
   visibilityTimeoutMs?: number;
@@ -26,14 +633,35 @@ export interface ConsumerOptions {
    * The ID of the queue you want to receive messages from.
    */
   queueId: string;
+  /**
+   * The Cloudflare API token to use, or a function that provides one. Tokens from a
+   * provider are cached and the provider is called again if the API responds with a 401.
+   *
+   * Defaults to the `QUEUES_API_TOKEN` environment variable.
+   */
+  credentials?: Credentials;
+  /**
+   * The base URL of the Cloudflare API, this can be changed to point the consumer at
+   * a local emulator such as the one provided by `QueuesEmulator`.
+   * @defaultvalue `https://api.cloudflare.com/client/v4`
+   */
+  apiBaseUrl?: string;
+  /**
+   * How requests to the Cloudflare API should be retried when they are rate limited,
+   * the API is temporarily unavailable or the network fails.
+   */
+  retryPolicy?: RetryPolicy;
   /**
    * An `async` function (or function that returns a `Promise`) to be called whenever
    * a message is received.
    *
    * In the case that you need to acknowledge the message, return an object containing
-   * the MessageId that you'd like to acknowledge.
+   * the MessageId that you'd like to acknowledge. To decide whether the message is
+   * acknowledged, retried or dead lettered, return a `BatchResult`.
    */
-  handleMessage?(message: Message): Promise<Message | void>;
+  handleMessage?(
+    message: Message<TBody>,
+  ): Promise<Message<TBody> | BatchResult<TBody> | void>;
   /**
    * An `async` function (or function that returns a `Promise`) to be called whenever
    * a batch of messages is received. Similar to `handleMessage` but will receive the
@@ -43,9 +671,82 @@ export interface ConsumerOptions {
    * **If both are set, `handleMessageBatch` overrides `handleMessage`**.
    *
    * In the case that you need to ack only some of the messages, return an array with
-   * the successful messages only.
+   * the successful messages only. To decide what happens to each message, return a
+   * `BatchResult` listing the messages to `ack`, `retry` and `deadLetter`.
    */
-  handleMessageBatch?(messages: Message[]): Promise<Message[] | void>;
+  handleMessageBatch?(
+    messages: Message<TBody>[],
+  ): Promise<Message<TBody>[] | BatchResult<TBody> | void>;
+  /**
+   * Decodes the body of each message before it is passed to the handler.
+   *
+   * By default, `json` bodies are parsed, `bytes` bodies become a `Buffer`, `v8` bodies
+   * are deserialised and `text` bodies are left as they are. Messages that fail to
+   * decode emit a `decode_error` event and never reach the handler.
+   *
+   * Return `message.body` to receive every body as the string that Cloudflare
+   * returned, like versions before decoding was added.
+   */
+  decodeBody?(message: Message<string>): TBody | Promise<TBody>;
+  /**
+   * Validates each message after its body has been decoded, messages that fail
+   * validation never reach the handler.
+   *
+   * This can either be a function that returns `true` for valid messages, or a
+   * [Standard Schema](https://standardschema.dev) compatible schema (such as one from
+   * zod, valibot or arktype) that the body is validated against. When a schema is used,
+   * the handler receives the value that the schema outputs.
+   */
+  validate?: MessageValidator<TBody>;
+  /**
+   * What to do with messages that fail `validate`, an `invalid_message` event is
+   * emitted with the validation issues in every case.
+   *
+   * - `ack` - acknowledge the message, dropping it from the queue.
+   * - `retry` - retry the message after `retryMessageDelay`.
+   * - `emit` - do nothing else, the message will be redelivered once its lease expires
+   *   unless it is dealt with by an `invalid_message` listener.
+   * @defaultvalue `emit`
+   */
+  invalidMessageAction?: InvalidMessageAction;
+  /**
+   * The number of times a message can be delivered before it is dead lettered. When a
+   * message fails on its last attempt it is sent to `deadLetter` and then acknowledged,
+   * instead of being retried.
+   *
+   * Requires `deadLetter` to be set.
+   */
+  maxAttempts?: number;
+  /**
+   * Where to send messages that have failed `maxAttempts` times. This can be a function,
+   * another queue (`{ queueId }`) or a local JSONL file (`{ file }`).
+   *
+   * If the message can't be dead lettered, an `error` event is emitted and it is handled
+   * as if `maxAttempts` had not been reached.
+   */
+  deadLetter?: DeadLetterSink;
+  /**
+   * The maximum number of `handleMessage` calls that can run at once. When set, the
+   * consumer no longer waits for a whole batch to finish before polling again, instead
+   * it requests more messages as soon as a handler slot becomes free.
+   *
+   * This has no effect when `handleMessageBatch` is used.
+   */
+  concurrency?: number;
+  /**
+   * Stop the consumer gracefully when the process receives a termination signal, while
+   * the consumer is running. The first signal calls `stop({ waitForInFlight: true })`
+   * and a second one calls `stop({ abort: true })`.
+   *
+   * Once every consumer that the signal stopped has stopped, the signal is sent again
+   * so that the process exits like it would without the listeners. If the application
+   * listens for the signal too, it has to exit the process itself.
+   *
+   * Pass `true` to listen for `SIGTERM` and `SIGINT` without a time limit, or an object
+   * to choose the signals and set a `timeoutMs`.
+   * @defaultvalue `false`
+   */
+  handleSignals?: boolean | SignalHandlingOptions;
   /**
    * An `async` function (or function that returns a `Promise`) to be called right
    * before the consumer sends a receive message command.
@@ -56,6 +757,12 @@ export interface ConsumerOptions {
    * after the consumer sends a receive message command.
    */
   postReceiveMessageCallback?(): Promise<void>;
+  /**
+   * Called when polling fails with an error that retrying won't fix, a `401`, `403` or
+   * `404` from Cloudflare. By default the consumer stops, return `true` to keep polling
+   * instead, for example after refreshing the credentials.
+   */
+  onFatalError?(error: Error): boolean | Promise<boolean>;
   /**
    * Time in ms to wait for `handleMessage` to process a message before timing out.
    *
@@ -67,26 +774,116 @@ export interface ConsumerOptions {
    * By default, the consumer will treat an empty object or array from either of the
    * handlers as a acknowledgement of no messages and will not delete those messages as
    * a result. Set this to `true` to always acknowledge all messages no matter the returned
-   * value.
+   * value. A result that middleware sets is still used.
    * @defaultvalue `false`
    */
   alwaysAcknowledge?: boolean;
   /**
-   * The amount of time to delay a message for before retrying (in seconds)
+   * The amount of time to delay a message for before retrying (in seconds), or a
+   * function that works it out for each message.
+   *
+   * `exponentialRetryDelay`, `linearRetryDelay` and `decorrelatedJitterRetryDelay`
+   * create functions that increase the delay with `message.attempts`. Delays are capped
+   * at 42300 seconds, the longest delay that Cloudflare allows.
    * @defaultvalue 10
    */
-  retryMessageDelay?: number;
+  retryMessageDelay?: number | RetryDelayStrategy;
   /**
    * The duration (in milliseconds) to wait before repolling the queue.
    * (Note: As Cloudflare uses short polling, you probably shouldn't set this too low)
    * @defaultvalue `1000`
    */
   pollingWaitTimeMs?: number;
+  /**
+   * Adjust the time between polls to the number of messages that are available. When
+   * a poll returns a full batch the queue is polled again straight away, and each
+   * consecutive empty poll doubles the wait (starting from `pollingWaitTimeMs`) up to
+   * `maxPollingWaitTimeMs`. A random jitter is applied to the wait so that instances
+   * don't poll in lock-step.
+   *
+   * Pass `true` to use the defaults or an object to change them.
+   * @defaultvalue `false`
+   */
+  adaptivePolling?: boolean | AdaptivePollingOptions;
+  /**
+   * Stop sending requests to Cloudflare while the Queues API is failing. After
+   * `failureThreshold` consecutive network errors, `429`s or `5xx`s from either pulling
+   * or acknowledging messages, the circuit opens and requests fail straight away. Once
+   * `resetTimeoutMs` has passed a single probe poll is sent, which closes the circuit if
+   * it succeeds or opens it again if it fails.
+   *
+   * Pass `true` to use the defaults or an object to change them.
+   * @defaultvalue `false`
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /**
+   * Limit the rate of requests to Cloudflare with a token bucket that every consumer
+   * and producer for the same `accountId` in the process shares. Pulls are let through
+   * after acknowledgements and sends when the budget is tight.
+   *
+   * Pass `true` to use the defaults or an object to change them. An error is thrown
+   * when the options differ from those of the account's rate limiter, `true` uses
+   * the options that it already has.
+   * @defaultvalue `false`
+   */
+  rateLimit?: boolean | RateLimitOptions;
+  /**
+   * Collect metrics about the consumer, which are available from `consumer.metrics` as
+   * a snapshot or in the Prometheus text format.
+   *
+   * Pass `true` to use the defaults or an object to change them.
+   * @defaultvalue `false`
+   */
+  metrics?: boolean | MetricsOptions;
+  /**
+   * Trace polls, requests to Cloudflare, message handlers and acknowledgements with an
+   * OpenTelemetry compatible tracer. When a message body has a W3C `traceparent`
+   * property, its handler span continues that trace.
+   */
+  tracing?: TracingOptions;
+  /**
+   * A structured logger, such as pino, to send the consumer's logs to. Every event is
+   * logged along with the `queueId` and, for messages, the `messageId`, `leaseId` and
+   * `attempt`. By default, logs are written at debug level with the `debug` package.
+   */
+  logger?: Logger;
+  /**
+   * Leave message bodies out of the logs, as they may contain sensitive data.
+   * @defaultvalue `true`
+   */
+  redactMessageBodies?: boolean;
+  /**
+   * The thresholds that `consumer.health()` uses to decide if the consumer is healthy.
+   */
+  healthThresholds?: HealthThresholds;
   /**
    * If the consumer should delete messages after they have been processed.
    * @defaultvalue `true`
    */
   shouldDeleteMessages?: boolean;
+  /**
+   * If acknowledgements and retries from concurrent handlers should be buffered and sent
+   * to Cloudflare together, rather than making one `messages/ack` request per message.
+   *
+   * The buffer is flushed once every message from a poll has been handled, or with
+   * `concurrency`, once it holds `acknowledgementBatchSize` messages or after
+   * `acknowledgementFlushIntervalMs` has passed. It is also flushed when the consumer
+   * is stopped.
+   * @defaultvalue `false`
+   */
+  batchAcknowledgements?: boolean;
+  /**
+   * The number of buffered acknowledgements and retries that triggers a flush.
+   * @defaultvalue `100`
+   */
+  acknowledgementBatchSize?: number;
+  /**
+   * The longest time (in milliseconds) that an acknowledgement is buffered for
+   * before it is sent. This can't be more than half of `visibilityTimeoutMs`, so that
+   * messages are acknowledged before their leases expire.
+   * @defaultvalue `1000`, or half of `visibilityTimeoutMs` if that is shorter
+   */
+  acknowledgementFlushIntervalMs?: number;
 }
 
 /**
@@ -107,17 +904,68 @@ export interface StopOptions {
    * @defaultvalue `false`
    */
   abort?: boolean;
+  /**
+   * Wait for the handlers and acknowledgement requests that are running to settle
+   * before resolving, buffered acknowledgements are sent straight away.
+   * @defaultvalue `false`
+   */
+  waitForInFlight?: boolean;
+  /**
+   * The longest time (in milliseconds) to wait for when `waitForInFlight` is set, by
+   * default there is no limit. Anything still running after this is abandoned.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * The options for stopping the consumer when the process receives a signal.
+ */
+export interface SignalHandlingOptions {
+  /**
+   * The signals to listen for.
+   * @defaultvalue `["SIGTERM", "SIGINT"]`
+   */
+  signals?: NodeJS.Signals[];
+  /**
+   * The longest time (in milliseconds) to drain the consumer for, by default there is
+   * no limit.
+   */
+  timeoutMs?: number;
 }
 
-export type Message = {
-  body: string;
+/**
+ * The handlers and acknowledgement requests that are running when the consumer stops.
+ */
+export interface InFlightSummary {
+  /**
+   * The number of message handlers, batches count as one handler.
+   */
+  handlers: number;
+  /**
+   * The number of acknowledgement requests, plus any buffered acknowledgements that
+   * haven't been sent yet.
+   */
+  acknowledgements: number;
+}
+
+/**
+ * The content types that Cloudflare Queues can store a message body as.
+ */
+export type QueueContentType = "text" | "json" | "bytes" | "v8";
+
+/**
+ * A message from the queue, `TBody` is the type of its body. Messages are received
+ * with a `string` body that is decoded before it is passed to the handler.
+ */
+export type Message<TBody = unknown> = {
+  body: TBody;
   id: string;
   timestamp_ms: number;
   attempts: number;
   lease_id: string;
   metadata: {
     "CF-sourceMessageSource": string;
-    "CF-Content-Type": "json" | "text";
+    "CF-Content-Type": QueueContentType;
   };
 };
 
@@ -138,7 +986,7 @@ export type PullMessagesResponse = {
   errors: CloudFlareError[];
   messages: CloudFlareError[];
   result: {
-    messages: Message[];
+    messages: Message<string>[];
   };
   success: boolean;
   result_info: CloudFlareResultInfo;
@@ -156,6 +1004,93 @@ export type AckMessageResponse = {
   result_info: CloudFlareResultInfo;
 };
 
+export type SendMessageRequest = {
+  body: unknown;
+  content_type?: QueueContentType;
+  delay_seconds?: number;
+};
+
+export type SendMessageBatchRequest = {
+  messages: SendMessageRequest[];
+  delay_seconds?: number;
+};
+
+export type SendMessageResponse = {
+  errors: CloudFlareError[];
+  messages: CloudFlareError[];
+  result: null;
+  success: boolean;
+};
+
+export type SendMessageBatchResponse = SendMessageResponse;
+
+/**
+ * The options for the producer.
+ */
+export interface ProducerOptions {
+  /**
+   * You Cloudflare account id
+   */
+  accountId: string;
+  /**
+   * The ID of the queue you want to send messages to.
+   */
+  queueId: string;
+  /**
+   * The Cloudflare API token to use, or a function that provides one. Tokens from a
+   * provider are cached and the provider is called again if the API responds with a 401.
+   *
+   * Defaults to the `QUEUES_API_TOKEN` environment variable.
+   */
+  credentials?: Credentials;
+  /**
+   * The base URL of the Cloudflare API, this can be changed to point the producer at
+   * a local emulator such as the one provided by `QueuesEmulator`.
+   * @defaultvalue `https://api.cloudflare.com/client/v4`
+   */
+  apiBaseUrl?: string;
+  /**
+   * How requests to the Cloudflare API should be retried when they are rate limited,
+   * the API is temporarily unavailable or the network fails.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Limit the rate of requests to Cloudflare with a token bucket that every consumer
+   * and producer for the same `accountId` in the process shares.
+   *
+   * Pass `true` to use the defaults or an object to change them. An error is thrown
+   * when the options differ from those of the account's rate limiter, `true` uses
+   * the options that it already has.
+   * @defaultvalue `false`
+   */
+  rateLimit?: boolean | RateLimitOptions;
+}
+
+/**
+ * The options for sending a single message with the producer.
+ */
+export interface SendOptions {
+  /**
+   * How Cloudflare should store the message body. Defaults to `text` for strings,
+   * `bytes` for `Uint8Array` (including `Buffer`) values and `json` for everything else.
+   */
+  contentType?: QueueContentType;
+  /**
+   * The number of seconds to delay the message for before it can be delivered.
+   */
+  delaySeconds?: number;
+}
+
+/**
+ * A message to send as part of a batch with the producer.
+ */
+export interface SendBatchEntry extends SendOptions {
+  /**
+   * The body of the message.
+   */
+  body: unknown;
+}
+
 /**
  * These are the events that the consumer emits.
  */
@@ -169,7 +1104,7 @@ export interface Events {
    */
   empty: [];
   /**
-   * Fired when a message is received.
+   * Fired when a message is received, before its body has been decoded.
    */
   message_received: [Message];
   /**
@@ -182,6 +1117,23 @@ export interface Events {
    * If the error correlates to a message, that message is included in Params
    */
   error: [Error, void | Message | Message[]];
+  /**
+   * Fired when polling fails with a `401`, `403` or `404` from Cloudflare. The consumer
+   * stops afterwards unless `onFatalError` returns `true`.
+   */
+  fatal_error: [Error];
+  /**
+   * Fired when the circuit breaker opens, with the error from the request that opened it.
+   */
+  circuit_opened: [Error];
+  /**
+   * Fired when the circuit breaker lets a probe poll through.
+   */
+  circuit_half_open: [];
+  /**
+   * Fired when a probe poll succeeds and the circuit breaker closes again.
+   */
+  circuit_closed: [];
   /**
    * Fired when `handleMessageTimeout` is supplied as an option and if
    * `handleMessage` times out.
@@ -200,9 +1152,19 @@ export interface Events {
    */
   started: [];
   /**
-   * Fired when the consumer finally stops its work.
+   * Fired when the process received a signal that the consumer is stopping for.
+   */
+  signal_received: [NodeJS.Signals];
+  /**
+   * Fired when the consumer has been stopped and is waiting for the work that is in
+   * flight to settle.
    */
-  stopped: [];
+  draining: [InFlightSummary];
+  /**
+   * Fired when the consumer finally stops its work, with a summary of the work that
+   * was still in flight and has been abandoned.
+   */
+  stopped: [InFlightSummary];
   /**
    * Fired when messages are acknowledging
    */
@@ -225,8 +1187,67 @@ export interface Events {
       warnings: string[];
     },
   ];
+  /**
+   * Fired when a request to the Cloudflare API failed and is about to be retried.
+   */
+  request_retry: [RequestRetry];
   /**
    * Fired when an option is updated
    */
   option_updated: [UpdatableOptions, ConsumerOptions[UpdatableOptions]];
+  /**
+   * Fired when the body of a message could not be decoded, the message is not passed
+   * to the handler.
+   */
+  decode_error: [Error, Message<string>];
+  /**
+   * Fired when a message has been retried, with the delay (in seconds) before it
+   * will be redelivered.
+   */
+  message_retried: [Message, number];
+  /**
+   * Fired when a message has been sent to the `deadLetter` sink and acknowledged.
+   */
+  message_dead_lettered: [Message, Error];
+  /**
+   * Fired when a message failed validation, the error includes the validation `issues`.
+   */
+  invalid_message: [Error, Message];
+}
+
+/**
+ * The events that a `ConsumerGroup` emits, which are the events of its consumers with
+ * the `queueId` of the consumer that emitted them added as the first argument.
+ */
+export type ConsumerGroupEvents = {
+  [E in keyof Events]: [queueId: string, ...args: Events[E]];
+};
+
+/**
+ * A queue for a `ConsumerGroup` to consume, with any options that should differ from
+ * the defaults of the group.
+ */
+export type ConsumerGroupQueue<TBody = unknown> = Partial<
+  Omit<ConsumerOptions<TBody>, "queueId" | "concurrency">
+> & {
+  /**
+   * The ID of the queue you want to receive messages from.
+   */
+  queueId: string;
+};
+
+export interface ConsumerGroupOptions<TBody = unknown>
+  extends Omit<ConsumerOptions<TBody>, "queueId" | "concurrency"> {
+  /**
+   * The queues to consume, every queue gets its own `Consumer` that is created with
+   * the options of the group merged with the options of the queue.
+   */
+  queues: ConsumerGroupQueue<TBody>[];
+  /**
+   * The maximum number of messages that can be handled at once across every queue in
+   * the group. Consumers stop pulling messages while the limit is reached.
+   *
+   * This can't be used when any of the queues use `handleMessageBatch`.
+   */
+  concurrency?: number;
 }
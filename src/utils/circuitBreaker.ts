@@ -0,0 +1,140 @@
+import type { CircuitBreakerOptions, CircuitState } from "../types.js";
+import { CircuitOpenError, ProviderError } from "./errors.js";
+
+export interface CircuitBreakerSettings
+  extends Required<CircuitBreakerOptions> {
+  /**
+   * Called whenever the circuit changes state, with the error that opened it.
+   */
+  onStateChange?(state: CircuitState, error?: Error): void;
+}
+
+/**
+ * Determine if an error suggests that the API is degraded, rather than a problem with
+ * the request itself.
+ * @param err The error that the request failed with
+ */
+function isFailure(err: unknown): boolean {
+  return (
+    err instanceof ProviderError &&
+    (err.status === undefined || err.status === 429 || err.status >= 500)
+  );
+}
+
+/**
+ * Stops requests from being made while an API is failing. The circuit opens after
+ * `failureThreshold` consecutive failures and rejects requests straight away until
+ * `resetTimeoutMs` has passed, at which point a single probe request is let through
+ * to decide whether it closes again.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private onStateChange?: CircuitBreakerSettings["onStateChange"];
+  private currentState: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  /**
+   * Create a new circuit breaker
+   * @param options The options for the circuit breaker
+   */
+  constructor(options: CircuitBreakerSettings) {
+    this.failureThreshold = options.failureThreshold;
+    this.resetTimeoutMs = options.resetTimeoutMs;
+    this.onStateChange = options.onStateChange;
+  }
+
+  /**
+   * The current state of the circuit.
+   */
+  public get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * The time (in milliseconds) until a probe request will be let through.
+   */
+  public get remainingOpenMs(): number {
+    if (this.currentState !== "open") {
+      return 0;
+    }
+
+    return Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now());
+  }
+
+  /**
+   * Run a request, unless the circuit is open.
+   * @param request The request to run
+   * @param canProbe If the request can be used to probe the API once the circuit has
+   * been open for `resetTimeoutMs`
+   */
+  public async execute<T>(
+    request: () => Promise<T>,
+    canProbe = true,
+  ): Promise<T> {
+    if (
+      canProbe &&
+      this.currentState === "open" &&
+      this.remainingOpenMs === 0
+    ) {
+      this.transition("half_open");
+    }
+
+    if (this.currentState === "open" || this.probing) {
+      throw new CircuitOpenError(
+        "The circuit is open, so the request was not sent.",
+      );
+    }
+
+    const isProbe = this.currentState === "half_open";
+    this.probing = isProbe;
+
+    try {
+      const result = await request();
+      this.recordSuccess();
+      return result;
+    } catch (err) {
+      this.recordFailure(err, isProbe);
+      throw err;
+    } finally {
+      if (isProbe) {
+        this.probing = false;
+      }
+    }
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+
+    if (this.currentState !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  private recordFailure(err: unknown, isProbe: boolean): void {
+    if (!isFailure(err)) {
+      if (isProbe) {
+        // The API responded, so it isn't the reason that the request failed
+        this.recordSuccess();
+      }
+      return;
+    }
+
+    this.consecutiveFailures++;
+
+    if (
+      this.currentState !== "open" &&
+      (isProbe || this.consecutiveFailures >= this.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition("open", err as Error);
+    }
+  }
+
+  private transition(state: CircuitState, error?: Error): void {
+    this.currentState = state;
+    this.onStateChange?.(state, error);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * The option that `ConsumerGroup` uses to give its consumers the limiter that they
+ * share, it is keyed by a symbol so that it isn't one of the public consumer options.
+ */
+export const SHARED_CONCURRENCY_LIMITER = Symbol("sharedConcurrencyLimiter");
+
+export interface SharedConcurrencyOptions {
+  [SHARED_CONCURRENCY_LIMITER]?: ConcurrencyLimiter;
+}
+
+/**
+ * Limits how many tasks can run at once, tasks that are over the limit wait
+ * in the order that they asked for a slot.
+ */
+export class ConcurrencyLimiter {
+  private limit: number;
+  private active = 0;
+  private queued: (() => void)[] = [];
+  private availabilityWaiters: (() => void)[] = [];
+
+  /**
+   * Create a new concurrency limiter
+   * @param limit The maximum number of tasks that can run at once
+   */
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  /**
+   * The number of tasks that are currently running.
+   */
+  public get activeCount(): number {
+    return this.active;
+  }
+
+  /**
+   * The number of tasks that could start right now without waiting.
+   */
+  public get available(): number {
+    return Math.max(0, this.limit - this.active - this.queued.length);
+  }
+
+  /**
+   * Wait for a slot and take it, `release` must be called once the task is done.
+   */
+  public acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve): void => {
+      this.queued.push(resolve);
+    });
+  }
+
+  /**
+   * Give up a slot, handing it to the next waiting task if there is one.
+   */
+  public release(): void {
+    const next = this.queued.shift();
+
+    if (next) {
+      next();
+      return;
+    }
+
+    this.active = Math.max(0, this.active - 1);
+
+    const waiters = this.availabilityWaiters;
+    this.availabilityWaiters = [];
+    waiters.forEach((resolve): void => resolve());
+  }
+
+  /**
+   * Wait until at least one slot is free, without taking it.
+   */
+  public async waitForAvailability(): Promise<void> {
+    while (this.available === 0) {
+      await new Promise<void>((resolve): void => {
+        this.availabilityWaiters.push(resolve);
+      });
+    }
+  }
+
+  /**
+   * Run a task once a slot is free.
+   * @param task The task to run
+   */
+  public async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+}
@@ -1,9 +1,20 @@
 import { EventEmitter } from "node:events";
 
-import { logger } from "./logger.js";
+import { StructuredLogger } from "./logger.js";
 import type { Events } from "../types.js";
 
 export class TypedEventEmitter extends EventEmitter {
+  protected logger: StructuredLogger;
+
+  /**
+   * Create a new event emitter
+   * @param logger The logger that every emitted event is logged to
+   */
+  constructor(logger = new StructuredLogger()) {
+    super();
+    this.logger = logger;
+  }
+
   /**
    * Trigger a listener on all emitted events
    * @param event The name of the event to listen to
@@ -31,7 +42,7 @@ export class TypedEventEmitter extends EventEmitter {
    * @param event The name of the event to emit
    */
   emit<E extends keyof Events>(event: E, ...args: Events[E]): boolean {
-    logger.debug(event, ...args);
+    this.logger.event(event, args);
     return super.emit(event, ...args);
   }
 }
@@ -1,3 +1,5 @@
+import type { ValidationIssue } from "../types.js";
+
 export class ProviderError extends Error {
   stack: string;
   code: string;
@@ -5,6 +7,7 @@ export class ProviderError extends Error {
   status: number;
   statusText?: string;
   url?: string;
+  retryAfter?: string;
 
   constructor(message: string) {
     super(message);
@@ -12,6 +15,22 @@ export class ProviderError extends Error {
   }
 }
 
+/**
+ * The statuses that mean the request will never succeed without changes to the
+ * configuration, such as a revoked token or an unknown account or queue.
+ */
+const FATAL_STATUS_CODES = [401, 403, 404];
+
+/**
+ * Determine if an error means that the consumer can't continue.
+ * @param err The error that was received.
+ */
+export function isFatalError(err: unknown): err is ProviderError {
+  return (
+    err instanceof ProviderError && FATAL_STATUS_CODES.includes(err.status)
+  );
+}
+
 interface ErrorWithResponse extends Error {
   code: string;
   response?: Response;
@@ -35,6 +54,7 @@ export function toProviderError(
     error.status = err.response.status;
     error.statusText = err.response.statusText;
     error.url = err.response.url;
+    error.retryAfter = err.response.headers?.get("retry-after") ?? undefined;
   }
 
   return error;
@@ -90,3 +110,66 @@ export function toTimeoutError(
 
   return error;
 }
+
+export class DecodeError extends Error {
+  cause: Error;
+  time: Date;
+
+  constructor(message = "Failed to decode the message body.") {
+    super(message);
+    this.message = message;
+    this.name = "DecodeError";
+  }
+}
+
+/**
+ * Formats an Error to the DecodeError type.
+ * @param err The error object that was received.
+ * @param message The message to send with the error.
+ */
+export function toDecodeError(err: Error, message: string): DecodeError {
+  const error = new DecodeError(message);
+  error.cause = err;
+  error.time = new Date();
+
+  return error;
+}
+
+export class ValidationError extends Error {
+  cause: Error;
+  time: Date;
+  issues: readonly ValidationIssue[];
+
+  constructor(message = "The message failed validation.") {
+    super(message);
+    this.message = message;
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Creates a ValidationError from the issues that were found.
+ * @param issues The issues that were found while validating the message.
+ * @param message The message to send with the error.
+ */
+export function toValidationError(
+  issues: readonly ValidationIssue[],
+  message: string,
+): ValidationError {
+  const error = new ValidationError(message);
+  error.issues = issues;
+  error.time = new Date();
+
+  return error;
+}
+
+export class CircuitOpenError extends Error {
+  time: Date;
+
+  constructor(message = "The circuit is open.") {
+    super(message);
+    this.message = message;
+    this.name = "CircuitOpenError";
+    this.time = new Date();
+  }
+}
@@ -1,6 +1,157 @@
 import createDebug from "debug";
+
+import type { Events, LogFields, LogLevel, Logger, Message } from "../types.js";
+
 const debug = createDebug("cloudflare-queue-consumer");
 
 export const logger = {
   debug,
 };
+
+/**
+ * Writes every level to the `debug` package, which is used when no logger is provided.
+ */
+const debugLogger: Logger = {
+  debug: (fields, message) => logger.debug(message, fields),
+  info: (fields, message) => logger.debug(message, fields),
+  warn: (fields, message) => logger.debug(message, fields),
+  error: (fields, message) => logger.debug(message, fields),
+};
+
+/**
+ * The level that events are logged at, any others are logged at debug level.
+ */
+const EVENT_LEVELS: Partial<Record<keyof Events, LogLevel>> = {
+  started: "info",
+  stopped: "info",
+  signal_received: "info",
+  circuit_closed: "info",
+  invalid_message: "warn",
+  decode_error: "warn",
+  message_dead_lettered: "warn",
+  circuit_opened: "warn",
+  error: "error",
+  fatal_error: "error",
+  processing_error: "error",
+  timeout_error: "error",
+};
+
+export interface StructuredLoggerOptions {
+  /**
+   * The logger to send logs to, defaults to the `debug` package.
+   */
+  logger?: Logger;
+  /**
+   * Fields that are added to every log.
+   */
+  fields?: LogFields;
+  /**
+   * Leave message bodies out of the logs.
+   * @defaultvalue `true`
+   */
+  redactMessageBodies?: boolean;
+}
+
+/**
+ * Determine if a value is a message from Cloudflare.
+ * @param value The value to check
+ */
+function isMessage(value: unknown): value is Message {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "id" in value &&
+    "lease_id" in value
+  );
+}
+
+/**
+ * Writes logs with a consistent set of fields to a pino style logger.
+ */
+export class StructuredLogger {
+  private logger: Logger;
+  private fields: LogFields;
+  private redactMessageBodies: boolean;
+
+  /**
+   * Create a new structured logger
+   * @param options The options for the logger
+   */
+  constructor(options: StructuredLoggerOptions = {}) {
+    this.logger = options.logger ?? debugLogger;
+    this.fields = options.fields ?? {};
+    this.redactMessageBodies = options.redactMessageBodies ?? true;
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  /**
+   * Log an event that is being emitted, with fields taken from its arguments.
+   * @param event The name of the event
+   * @param args The arguments of the event
+   */
+  public event(event: keyof Events, args: unknown[]): void {
+    this.log(EVENT_LEVELS[event] ?? "debug", event, {
+      event,
+      ...this.toFields(args),
+    });
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    this.logger[level]({ ...this.fields, ...fields }, message);
+  }
+
+  /**
+   * The fields that describe a message, without its body unless bodies are logged.
+   * @param message The message to describe
+   */
+  private messageFields(message: Message): LogFields {
+    return {
+      messageId: message.id,
+      leaseId: message.lease_id,
+      attempt: message.attempts,
+      ...(this.redactMessageBodies ? {} : { body: message.body }),
+    };
+  }
+
+  /**
+   * Convert the arguments of an event into log fields.
+   * @param args The arguments of the event
+   */
+  private toFields(args: unknown[]): LogFields {
+    const fields: LogFields = {};
+    const data: unknown[] = [];
+
+    args.forEach((arg): void => {
+      if (arg instanceof Error) {
+        fields.err = arg;
+      } else if (isMessage(arg)) {
+        Object.assign(fields, this.messageFields(arg));
+      } else if (Array.isArray(arg) && arg.length > 0 && arg.every(isMessage)) {
+        fields.messageIds = arg.map((message) => message.id);
+      } else if (arg !== undefined) {
+        data.push(arg);
+      }
+    });
+
+    if (data.length > 0) {
+      fields.data = data.length === 1 ? data[0] : data;
+    }
+
+    return fields;
+  }
+}
@@ -0,0 +1,219 @@
+import type {
+  RateLimiterState,
+  RateLimitOptions,
+  RequestPriority,
+} from "../types.js";
+
+interface Waiter {
+  resolve(): void;
+  reject(reason: unknown): void;
+}
+
+/**
+ * Limits the rate of requests with a token bucket that holds up to `burst` tokens and
+ * refills at `requestsPerSecond`. High priority requests are let through first, and
+ * low priority requests can't use the last `reservedTokens`, so that they are the
+ * first to wait when the budget is tight.
+ */
+export class RateLimiter {
+  private accountId: string;
+  private requestsPerSecond: number;
+  private capacity: number;
+  private reservedTokens: number;
+  private tokens: number;
+  private lastRefillAt = Date.now();
+  private throttledRequests = 0;
+  private waiting: Record<RequestPriority, Waiter[]> = { high: [], low: [] };
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * Create a new rate limiter
+   * @param accountId The ID of the account that the limit applies to
+   * @param options The options for the rate limiter
+   */
+  constructor(accountId: string, options: RateLimitOptions = {}) {
+    this.accountId = accountId;
+    this.requestsPerSecond = options.requestsPerSecond ?? 4;
+    this.capacity = options.burst ?? 20;
+    this.reservedTokens =
+      options.reservedTokens ?? Math.floor(this.capacity / 4);
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * The current state of the rate limiter.
+   */
+  public get state(): RateLimiterState {
+    this.refill();
+
+    return {
+      accountId: this.accountId,
+      tokens: Math.floor(this.tokens),
+      capacity: this.capacity,
+      requestsPerSecond: this.requestsPerSecond,
+      waiting: {
+        high: this.waiting.high.length,
+        low: this.waiting.low.length,
+      },
+      throttledRequests: this.throttledRequests,
+    };
+  }
+
+  /**
+   * Wait for a token and take it.
+   * @param priority The priority of the request
+   * @param signal Stops waiting for a token when it is aborted
+   */
+  public acquire(
+    priority: RequestPriority = "high",
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    this.refill();
+
+    const ahead =
+      priority === "high"
+        ? this.waiting.high.length
+        : this.waiting.high.length + this.waiting.low.length;
+
+    if (ahead === 0 && this.canTake(priority)) {
+      this.tokens--;
+      return Promise.resolve();
+    }
+
+    this.throttledRequests++;
+
+    return new Promise<void>((resolve, reject): void => {
+      function onAbort(): void {
+        queue.splice(queue.indexOf(waiter), 1);
+        reject(signal.reason);
+      }
+
+      const queue = this.waiting[priority];
+      const waiter: Waiter = {
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        reject,
+      };
+
+      queue.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.schedule();
+    });
+  }
+
+  /**
+   * Determine if the rate limiter was created with the given options, options that
+   * aren't set match any value.
+   * @param options The options to compare
+   */
+  public hasOptions(options: RateLimitOptions = {}): boolean {
+    return (
+      (options.requestsPerSecond ?? this.requestsPerSecond) ===
+        this.requestsPerSecond &&
+      (options.burst ?? this.capacity) === this.capacity &&
+      (options.reservedTokens ?? this.reservedTokens) === this.reservedTokens
+    );
+  }
+
+  private canTake(priority: RequestPriority): boolean {
+    const reserved = priority === "low" ? this.reservedTokens : 0;
+
+    return this.tokens >= 1 + reserved;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefillAt) / 1000) * this.requestsPerSecond,
+    );
+    this.lastRefillAt = now;
+  }
+
+  /**
+   * Hand out the tokens that have been refilled to the waiting requests, then wait
+   * for the next token that is needed.
+   */
+  private release(): void {
+    this.refill();
+
+    for (const priority of ["high", "low"] as RequestPriority[]) {
+      const queue = this.waiting[priority];
+
+      while (queue.length > 0 && this.canTake(priority)) {
+        this.tokens--;
+        queue.shift().resolve();
+      }
+
+      if (queue.length > 0) {
+        // Low priority requests wait until the high priority ones have gone
+        break;
+      }
+    }
+
+    this.schedule();
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const priority = this.waiting.high.length > 0 ? "high" : "low";
+
+    if (this.waiting[priority].length === 0) {
+      return;
+    }
+
+    const missing = (priority === "low" ? this.reservedTokens : 0) + 1;
+    const delayMs = Math.max(
+      0,
+      ((missing - this.tokens) / this.requestsPerSecond) * 1000,
+    );
+
+    this.timer = setTimeout(() => this.release(), Math.ceil(delayMs));
+  }
+}
+
+const accountRateLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Find the rate limiter that every request to an account in this process shares,
+ * creating it with the given options if it doesn't exist yet.
+ * @param accountId The ID of the account
+ * @param options The options for the rate limiter, if it needs to be created
+ * @throws If the rate limiter already exists with different options
+ */
+export function sharedRateLimiter(
+  accountId: string,
+  options?: RateLimitOptions,
+): RateLimiter {
+  if (!accountRateLimiters.has(accountId)) {
+    accountRateLimiters.set(accountId, new RateLimiter(accountId, options));
+  }
+
+  const rateLimiter = accountRateLimiters.get(accountId);
+
+  if (!rateLimiter.hasOptions(options)) {
+    throw new Error(
+      `The rate limiter of account ${accountId} already exists with different options.`,
+    );
+  }
+
+  return rateLimiter;
+}
+
+/**
+ * Find the rate limiter of an account, so that its state can be reported.
+ * @param accountId The ID of the account
+ * @returns The rate limiter, or `undefined` if nothing has used one for the account
+ */
+export function getRateLimiter(accountId: string): RateLimiter | undefined {
+  return accountRateLimiters.get(accountId);
+}
@@ -1,4 +1,14 @@
-import type { ConsumerOptions, PullMessagesResponse } from "../types.js";
+import type {
+  ConsumerGroupOptions,
+  ConsumerOptions,
+  Credentials,
+  RetryPolicy,
+  ProducerOptions,
+  PullMessagesResponse,
+  RouterOptions,
+} from "../types.js";
+
+const requiredProducerOptions = ["accountId", "queueId"];
 
 const requiredOptions = [
   "accountId",
@@ -24,11 +34,38 @@ function validateOption(option: string, value: number, strict?: boolean): void {
         throw new Error("retryMessageDelay must be less than 42300");
       }
       break;
+    case "delaySeconds":
+      if (value > 42300 || value < 0) {
+        throw new Error("delaySeconds must be between 0 and 42300");
+      }
+      break;
     case "pollingWaitTimeMs":
       if (value < 0) {
         throw new Error("pollingWaitTimeMs must be greater than 0.");
       }
       break;
+    case "concurrency":
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error("concurrency must be a whole number greater than 0.");
+      }
+      break;
+    case "maxAttempts":
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error("maxAttempts must be a whole number greater than 0.");
+      }
+      break;
+    case "acknowledgementBatchSize":
+      if (value > 100 || value < 1) {
+        throw new Error("acknowledgementBatchSize must be between 1 and 100");
+      }
+      break;
+    case "acknowledgementFlushIntervalMs":
+      if (value < 0) {
+        throw new Error(
+          "acknowledgementFlushIntervalMs must be greater than 0.",
+        );
+      }
+      break;
     default:
       if (strict) {
         throw new Error(`The update ${option} cannot be updated`);
@@ -37,6 +74,285 @@ function validateOption(option: string, value: number, strict?: boolean): void {
   }
 }
 
+/**
+ * Ensure that the credentials are either a token or a function that provides one.
+ * @param credentials The credentials that have been set by the application.
+ */
+function assertCredentials(credentials?: Credentials): void {
+  if (
+    credentials !== undefined &&
+    typeof credentials !== "string" &&
+    typeof credentials !== "function"
+  ) {
+    throw new Error(
+      "credentials must be an API token or a function that returns one.",
+    );
+  }
+}
+
+/**
+ * Ensure that the retry policy can be applied.
+ * @param retryPolicy The retry policy that has been set by the application.
+ */
+function assertRetryPolicy(retryPolicy?: RetryPolicy): void {
+  if (!retryPolicy) {
+    return;
+  }
+
+  if (retryPolicy.maxAttempts !== undefined && retryPolicy.maxAttempts < 1) {
+    throw new Error("retryPolicy.maxAttempts must be greater than 0.");
+  }
+
+  if (retryPolicy.baseDelayMs !== undefined && retryPolicy.baseDelayMs < 0) {
+    throw new Error("retryPolicy.baseDelayMs must be greater than 0.");
+  }
+
+  if (retryPolicy.maxDelayMs !== undefined && retryPolicy.maxDelayMs < 0) {
+    throw new Error("retryPolicy.maxDelayMs must be greater than 0.");
+  }
+
+  if (
+    retryPolicy.jitter !== undefined &&
+    !["none", "full", "equal"].includes(retryPolicy.jitter)
+  ) {
+    throw new Error("retryPolicy.jitter must be one of none, full or equal.");
+  }
+}
+
+/**
+ * Ensure that messages can be validated with the provided options.
+ * @param options The options that have been set by the application.
+ */
+function assertValidationOptions(options: ConsumerOptions): void {
+  if (
+    options.validate !== undefined &&
+    typeof options.validate !== "function" &&
+    typeof options.validate?.["~standard"]?.validate !== "function"
+  ) {
+    throw new Error("validate must be a function or a Standard Schema.");
+  }
+
+  if (
+    options.invalidMessageAction !== undefined &&
+    !["ack", "retry", "emit"].includes(options.invalidMessageAction)
+  ) {
+    throw new Error("invalidMessageAction must be one of ack, retry or emit.");
+  }
+}
+
+/**
+ * Ensure that messages can be dead lettered with the provided options.
+ * @param options The options that have been set by the application.
+ */
+function assertDeadLetterOptions(options: ConsumerOptions): void {
+  const { deadLetter } = options;
+
+  if (
+    deadLetter !== undefined &&
+    typeof deadLetter !== "function" &&
+    typeof deadLetter?.["queueId"] !== "string" &&
+    typeof deadLetter?.["file"] !== "string"
+  ) {
+    throw new Error(
+      "deadLetter must be a function, a { queueId } or a { file }.",
+    );
+  }
+
+  if (options.maxAttempts !== undefined) {
+    validateOption("maxAttempts", options.maxAttempts);
+
+    if (!deadLetter) {
+      throw new Error("maxAttempts requires the deadLetter option to be set.");
+    }
+  }
+}
+
+/**
+ * Ensure that the signal handling options can be applied.
+ * @param handleSignals The signal handling options that have been set by the application.
+ */
+function assertSignalHandlingOptions(
+  handleSignals?: ConsumerOptions["handleSignals"],
+): void {
+  if (!handleSignals || handleSignals === true) {
+    return;
+  }
+
+  if (
+    handleSignals.signals !== undefined &&
+    !Array.isArray(handleSignals.signals)
+  ) {
+    throw new Error("handleSignals.signals must be an array of signals.");
+  }
+
+  if (handleSignals.timeoutMs !== undefined && handleSignals.timeoutMs < 0) {
+    throw new Error("handleSignals.timeoutMs must be greater than 0.");
+  }
+}
+
+/**
+ * Ensure that the adaptive polling options can be applied.
+ * @param adaptivePolling The adaptive polling options that have been set by the application.
+ */
+function assertAdaptivePollingOptions(
+  adaptivePolling?: ConsumerOptions["adaptivePolling"],
+): void {
+  if (!adaptivePolling || adaptivePolling === true) {
+    return;
+  }
+
+  if (
+    adaptivePolling.maxPollingWaitTimeMs !== undefined &&
+    adaptivePolling.maxPollingWaitTimeMs < 0
+  ) {
+    throw new Error(
+      "adaptivePolling.maxPollingWaitTimeMs must be greater than 0.",
+    );
+  }
+
+  if (
+    adaptivePolling.backoffMultiplier !== undefined &&
+    adaptivePolling.backoffMultiplier < 1
+  ) {
+    throw new Error("adaptivePolling.backoffMultiplier must be at least 1.");
+  }
+
+  if (
+    adaptivePolling.jitter !== undefined &&
+    (adaptivePolling.jitter < 0 || adaptivePolling.jitter > 1)
+  ) {
+    throw new Error("adaptivePolling.jitter must be between 0 and 1.");
+  }
+}
+
+/**
+ * Ensure that the circuit breaker options can be applied.
+ * @param circuitBreaker The circuit breaker options that have been set by the application.
+ */
+function assertCircuitBreakerOptions(
+  circuitBreaker?: ConsumerOptions["circuitBreaker"],
+): void {
+  if (!circuitBreaker || circuitBreaker === true) {
+    return;
+  }
+
+  if (
+    circuitBreaker.failureThreshold !== undefined &&
+    (!Number.isInteger(circuitBreaker.failureThreshold) ||
+      circuitBreaker.failureThreshold < 1)
+  ) {
+    throw new Error(
+      "circuitBreaker.failureThreshold must be a whole number greater than 0.",
+    );
+  }
+
+  if (
+    circuitBreaker.resetTimeoutMs !== undefined &&
+    circuitBreaker.resetTimeoutMs < 0
+  ) {
+    throw new Error("circuitBreaker.resetTimeoutMs must be greater than 0.");
+  }
+}
+
+/**
+ * Ensure that the rate limit options are valid.
+ * @param rateLimit The rate limit options that have been set by the application.
+ */
+function assertRateLimitOptions(
+  rateLimit?: ConsumerOptions["rateLimit"],
+): void {
+  if (!rateLimit || rateLimit === true) {
+    return;
+  }
+
+  if (
+    rateLimit.requestsPerSecond !== undefined &&
+    !(rateLimit.requestsPerSecond > 0)
+  ) {
+    throw new Error("rateLimit.requestsPerSecond must be greater than 0.");
+  }
+
+  const burst = rateLimit.burst ?? 20;
+
+  if (!Number.isInteger(burst) || burst < 1) {
+    throw new Error("rateLimit.burst must be a whole number greater than 0.");
+  }
+
+  if (
+    rateLimit.reservedTokens !== undefined &&
+    (!Number.isInteger(rateLimit.reservedTokens) ||
+      rateLimit.reservedTokens < 0 ||
+      rateLimit.reservedTokens >= burst)
+  ) {
+    throw new Error(
+      "rateLimit.reservedTokens must be a whole number that is less than burst.",
+    );
+  }
+}
+
+/**
+ * Ensure that the health thresholds can be applied.
+ * @param healthThresholds The health thresholds that have been set by the application.
+ */
+function assertHealthThresholds(
+  healthThresholds?: ConsumerOptions["healthThresholds"],
+): void {
+  if (!healthThresholds) {
+    return;
+  }
+
+  if (
+    healthThresholds.maxPollAgeMs !== undefined &&
+    healthThresholds.maxPollAgeMs < 0
+  ) {
+    throw new Error("healthThresholds.maxPollAgeMs must be greater than 0.");
+  }
+
+  ["maxConsecutivePollErrors", "maxConsecutiveAckErrors"].forEach(
+    (threshold): void => {
+      const value = healthThresholds[threshold];
+
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(
+          `healthThresholds.${threshold} must be a whole number greater than 0.`,
+        );
+      }
+    },
+  );
+}
+
+/**
+ * Ensure that the logger has a method for every level.
+ * @param logger The logger that has been set by the application.
+ */
+function assertLogger(logger?: ConsumerOptions["logger"]): void {
+  if (
+    logger !== undefined &&
+    !["debug", "info", "warn", "error"].every(
+      (level) => typeof logger?.[level] === "function",
+    )
+  ) {
+    throw new Error("logger must have debug, info, warn and error methods.");
+  }
+}
+
+/**
+ * Ensure that buffered acknowledgements are sent well before the leases of their
+ * messages expire, otherwise the messages would be delivered again.
+ * @param flushIntervalMs The longest time that an acknowledgement is buffered for
+ * @param visibilityTimeoutMs The time that messages are leased for
+ */
+function assertAcknowledgementFlushInterval(
+  flushIntervalMs: number,
+  visibilityTimeoutMs: number,
+): void {
+  if (flushIntervalMs > visibilityTimeoutMs / 2) {
+    throw new Error(
+      "acknowledgementFlushIntervalMs must be no more than half of visibilityTimeoutMs.",
+    );
+  }
+}
+
 /**
  * Ensure that the required options have been set.
  * @param options The options that have been set by the application.
@@ -51,6 +367,17 @@ function assertOptions(options: ConsumerOptions): void {
     }
   });
 
+  assertCredentials(options.credentials);
+  assertRetryPolicy(options.retryPolicy);
+  assertValidationOptions(options);
+  assertDeadLetterOptions(options);
+  assertSignalHandlingOptions(options.handleSignals);
+  assertAdaptivePollingOptions(options.adaptivePolling);
+  assertCircuitBreakerOptions(options.circuitBreaker);
+  assertRateLimitOptions(options.rateLimit);
+  assertLogger(options.logger);
+  assertHealthThresholds(options.healthThresholds);
+
   if (options.batchSize) {
     validateOption("batchSize", options.batchSize);
   }
@@ -59,8 +386,112 @@ function assertOptions(options: ConsumerOptions): void {
     validateOption("visibilityTimeoutMs", options.visibilityTimeoutMs);
   }
 
-  if (options.retryMessageDelay) {
+  if (typeof options.retryMessageDelay === "number") {
     validateOption("retryMessageDelay", options.retryMessageDelay);
+  } else if (
+    options.retryMessageDelay !== undefined &&
+    typeof options.retryMessageDelay !== "function"
+  ) {
+    throw new Error(
+      "retryMessageDelay must be a number of seconds or a function.",
+    );
+  }
+
+  if (options.concurrency !== undefined) {
+    validateOption("concurrency", options.concurrency);
+  }
+
+  if (options.acknowledgementBatchSize !== undefined) {
+    validateOption(
+      "acknowledgementBatchSize",
+      options.acknowledgementBatchSize,
+    );
+  }
+
+  if (options.acknowledgementFlushIntervalMs !== undefined) {
+    validateOption(
+      "acknowledgementFlushIntervalMs",
+      options.acknowledgementFlushIntervalMs,
+    );
+    assertAcknowledgementFlushInterval(
+      options.acknowledgementFlushIntervalMs,
+      options.visibilityTimeoutMs ?? 1000,
+    );
+  }
+}
+
+/**
+ * Ensure that the required producer options have been set.
+ * @param options The options that have been set by the application.
+ */
+function assertProducerOptions(options: ProducerOptions): void {
+  requiredProducerOptions.forEach((option) => {
+    if (!options?.[option]) {
+      throw new Error(`Missing producer option [ ${option} ].`);
+    }
+  });
+
+  assertCredentials(options.credentials);
+  assertRetryPolicy(options.retryPolicy);
+  assertRateLimitOptions(options.rateLimit);
+}
+
+/**
+ * Ensure that a consumer group has queues to consume and that none of them are
+ * repeated, the options of each consumer are checked when it is created.
+ * @param options The options that have been set by the application.
+ */
+function assertConsumerGroupOptions(options: ConsumerGroupOptions): void {
+  if (!Array.isArray(options?.queues) || options.queues.length === 0) {
+    throw new Error("queues must be an array with at least one queue.");
+  }
+
+  const queueIds = new Set<string>();
+
+  options.queues.forEach((queue): void => {
+    if (queueIds.has(queue?.queueId)) {
+      throw new Error(`The queue ${queue.queueId} is in the group twice.`);
+    }
+    queueIds.add(queue?.queueId);
+  });
+
+  if (options.concurrency !== undefined) {
+    validateOption("concurrency", options.concurrency);
+
+    // Batch handlers don't take slots, so the limit would be ignored for their queues
+    options.queues.forEach((queue): void => {
+      if ({ ...options, ...queue }.handleMessageBatch) {
+        throw new Error(
+          `concurrency can't be used with the queue ${queue.queueId} because it uses handleMessageBatch.`,
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Ensure that a router knows how to find the type of a message and what to do with
+ * messages of an unknown type.
+ * @param options The options that have been set by the application.
+ */
+function assertRouterOptions(options: RouterOptions): void {
+  if (
+    typeof options?.discriminator !== "string" &&
+    typeof options?.discriminator !== "function"
+  ) {
+    throw new Error(
+      "discriminator must be the name of a body property or a function.",
+    );
+  }
+
+  if (
+    options.fallback !== undefined &&
+    typeof options.fallback !== "function" &&
+    !["ack", "retry", "deadLetter"].includes(options.fallback)
+  ) {
+    throw new Error(
+      "fallback must be one of ack, retry or deadLetter, or a function.",
+    );
   }
 }
 
@@ -75,4 +506,12 @@ function hasMessages(response: PullMessagesResponse): boolean {
   );
 }
 
-export { assertOptions, validateOption, hasMessages };
+export {
+  assertAcknowledgementFlushInterval,
+  assertOptions,
+  assertProducerOptions,
+  assertConsumerGroupOptions,
+  assertRouterOptions,
+  validateOption,
+  hasMessages,
+};
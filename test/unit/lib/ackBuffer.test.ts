@@ -0,0 +1,106 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import { assert } from "chai";
+import sinon from "sinon";
+
+import { AcknowledgementBuffer } from "../../../src/lib/ackBuffer";
+import type { Message } from "../../../src/types";
+
+function createMessage(id: string): Message {
+  return {
+    body: "body",
+    id,
+    timestamp_ms: 1234567890,
+    attempts: 1,
+    lease_id: `lease-${id}`,
+    metadata: {
+      "CF-sourceMessageSource": "test",
+      "CF-Content-Type": "text",
+    },
+  };
+}
+
+describe("AcknowledgementBuffer", () => {
+  let clock: sinon.SinonFakeTimers;
+  let flushHandler: sinon.SinonStub;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+    flushHandler = sinon.stub().resolves();
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it("flushes acks and retries together once the interval has passed", async () => {
+    const buffer = new AcknowledgementBuffer({
+      flushHandler,
+      maxSize: 10,
+      flushIntervalMs: 500,
+    });
+    const ack = createMessage("1");
+    const retry = { message: createMessage("2"), delaySeconds: 10 };
+
+    const flushed = Promise.all([
+      buffer.add([ack], []),
+      buffer.add([], [retry]),
+    ]);
+
+    sinon.assert.notCalled(flushHandler);
+    await clock.tickAsync(500);
+    await flushed;
+
+    sinon.assert.calledOnceWithExactly(flushHandler, [ack], [retry]);
+    assert.equal(buffer.size, 0);
+  });
+
+  it("flushes immediately once the size threshold is reached", async () => {
+    const buffer = new AcknowledgementBuffer({
+      flushHandler,
+      maxSize: 2,
+      flushIntervalMs: 500,
+    });
+
+    await Promise.all([
+      buffer.add([createMessage("1")], []),
+      buffer.add([createMessage("2")], []),
+    ]);
+
+    sinon.assert.calledOnce(flushHandler);
+    assert.lengthOf(flushHandler.firstCall.args[0], 2);
+  });
+
+  it("splits large flushes into requests of at most maxSize", async () => {
+    const buffer = new AcknowledgementBuffer({
+      flushHandler,
+      maxSize: 2,
+      flushIntervalMs: 500,
+    });
+
+    await buffer.add(
+      [createMessage("1"), createMessage("2")],
+      [{ message: createMessage("3"), delaySeconds: 10 }],
+    );
+
+    sinon.assert.calledTwice(flushHandler);
+    assert.lengthOf(flushHandler.firstCall.args[0], 2);
+    assert.lengthOf(flushHandler.secondCall.args[1], 1);
+  });
+
+  it("resolves waiting handlers even if the flush fails", async () => {
+    flushHandler.rejects(new Error("Flush failed"));
+    const buffer = new AcknowledgementBuffer({
+      flushHandler,
+      maxSize: 10,
+      flushIntervalMs: 500,
+    });
+
+    const flushed = buffer.add([createMessage("1")], []);
+    const flushing = buffer.flush().catch((err) => err);
+
+    await flushed;
+    const err = await flushing;
+
+    assert.equal(err.message, "Flush failed");
+  });
+});
@@ -4,6 +4,7 @@ import nock from "nock";
 import sinon from "sinon";
 
 import { queuesClient } from "../../../src/lib/cloudflare";
+import { CredentialsCache } from "../../../src/lib/credentials";
 import { ProviderError } from "../../../src/utils/errors";
 
 const CLOUDFLARE_HOST = "https://api.cloudflare.com/client/v4";
@@ -64,6 +65,57 @@ describe("queuesClient", () => {
     }
   });
 
+  it("should use the token from the provided credentials", async () => {
+    const path = "messages";
+    const responseBody = { success: true, result: [] };
+
+    nock(CLOUDFLARE_HOST, {
+      reqheaders: { authorization: "Bearer static-token" },
+    })
+      .get(`/accounts/${ACCOUNT_ID}/queues/${QUEUE_ID}/${path}`)
+      .reply(200, responseBody);
+
+    const result = await queuesClient({
+      path,
+      method: "GET",
+      accountId: ACCOUNT_ID,
+      queueId: QUEUE_ID,
+      credentials: new CredentialsCache("static-token"),
+    });
+
+    assert.deepEqual(result, responseBody);
+  });
+
+  it("should refresh the token from the credentials provider on a 401", async () => {
+    const path = "messages";
+    const responseBody = { success: true, result: [] };
+    const provider = sandbox.stub();
+    provider.onFirstCall().resolves("expired-token");
+    provider.onSecondCall().resolves("rotated-token");
+
+    nock(CLOUDFLARE_HOST, {
+      reqheaders: { authorization: "Bearer expired-token" },
+    })
+      .get(`/accounts/${ACCOUNT_ID}/queues/${QUEUE_ID}/${path}`)
+      .reply(401, "Unauthorized");
+    nock(CLOUDFLARE_HOST, {
+      reqheaders: { authorization: "Bearer rotated-token" },
+    })
+      .get(`/accounts/${ACCOUNT_ID}/queues/${QUEUE_ID}/${path}`)
+      .reply(200, responseBody);
+
+    const result = await queuesClient({
+      path,
+      method: "GET",
+      accountId: ACCOUNT_ID,
+      queueId: QUEUE_ID,
+      credentials: new CredentialsCache(provider),
+    });
+
+    assert.deepEqual(result, responseBody);
+    sinon.assert.calledTwice(provider);
+  });
+
   it("should retry on 429 Too Many Requests", async () => {
     const path = "messages";
     const method = "GET";
@@ -107,4 +159,183 @@ describe("queuesClient", () => {
       assert.equal(error.message, "Max retries reached");
     }
   });
+
+  describe("retryPolicy", () => {
+    const path = "messages";
+    const endpoint = `/accounts/${ACCOUNT_ID}/queues/${QUEUE_ID}/${path}`;
+    const responseBody = { success: true, result: [] };
+    const retryPolicy = { baseDelayMs: 1, jitter: "none" as const };
+
+    it("should retry on transient 5xx responses", async () => {
+      const onRetry = sandbox.stub();
+
+      nock(CLOUDFLARE_HOST)
+        .get(endpoint)
+        .reply(503, "Service Unavailable")
+        .get(endpoint)
+        .reply(200, responseBody);
+
+      const result = await queuesClient({
+        path,
+        method: "GET",
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        retryPolicy,
+        onRetry,
+      });
+
+      assert.deepEqual(result, responseBody);
+      sinon.assert.calledOnce(onRetry);
+      assert.deepInclude(onRetry.firstCall.args[0], {
+        attempt: 1,
+        delayMs: 2,
+        path,
+      });
+      assert.match(onRetry.firstCall.args[0].reason, /503/);
+    });
+
+    it("should retry on network errors", async () => {
+      const onRetry = sandbox.stub();
+
+      nock(CLOUDFLARE_HOST)
+        .get(endpoint)
+        .replyWithError("socket hang up")
+        .get(endpoint)
+        .reply(200, responseBody);
+
+      const result = await queuesClient({
+        path,
+        method: "GET",
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        retryPolicy,
+        onRetry,
+      });
+
+      assert.deepEqual(result, responseBody);
+      assert.match(onRetry.firstCall.args[0].reason, /^Network error/);
+    });
+
+    it("should not retry network errors for requests that aren't idempotent", async () => {
+      const onRetry = sandbox.stub();
+
+      nock(CLOUDFLARE_HOST).post(endpoint).replyWithError("socket hang up");
+
+      try {
+        await queuesClient({
+          path,
+          method: "POST",
+          body: { body: "message" },
+          accountId: ACCOUNT_ID,
+          queueId: QUEUE_ID,
+          retryPolicy,
+          onRetry,
+        });
+        assert.fail("Expected error to be thrown");
+      } catch (error) {
+        assert.match(error.message, /^Network error/);
+        sinon.assert.notCalled(onRetry);
+      }
+    });
+
+    it("should retry network errors for idempotent requests", async () => {
+      nock(CLOUDFLARE_HOST)
+        .post(endpoint)
+        .replyWithError("socket hang up")
+        .post(endpoint)
+        .reply(200, responseBody);
+
+      const result = await queuesClient({
+        path,
+        method: "POST",
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        retryPolicy,
+        idempotent: true,
+      });
+
+      assert.deepEqual(result, responseBody);
+    });
+
+    it("should stop waiting to retry when the signal is aborted", async () => {
+      const controller = new AbortController();
+
+      nock(CLOUDFLARE_HOST).get(endpoint).reply(503, "Service Unavailable");
+
+      const request = queuesClient({
+        path,
+        method: "GET",
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        signal: controller.signal,
+        retryPolicy: { ...retryPolicy, baseDelayMs: 60000 },
+        onRetry: () => setImmediate(() => controller.abort()),
+      });
+
+      const error = await request.catch((err) => err);
+
+      assert.equal(error.name, "AbortError");
+    });
+
+    it("should honour the Retry-After header", async () => {
+      const onRetry = sandbox.stub();
+
+      nock(CLOUDFLARE_HOST)
+        .get(endpoint)
+        .reply(429, "Too Many Requests", { "retry-after": "0.05" })
+        .get(endpoint)
+        .reply(200, responseBody);
+
+      await queuesClient({
+        path,
+        method: "GET",
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        retryPolicy,
+        onRetry,
+      });
+
+      assert.equal(onRetry.firstCall.args[0].delayMs, 50);
+    });
+
+    it("should not retry status codes that are not retryable", async () => {
+      nock(CLOUDFLARE_HOST).get(endpoint).reply(400, "Bad Request");
+
+      try {
+        await queuesClient({
+          path,
+          method: "GET",
+          accountId: ACCOUNT_ID,
+          queueId: QUEUE_ID,
+          retryPolicy,
+        });
+        assert.fail("Expected error to be thrown");
+      } catch (error) {
+        assert.instanceOf(error, ProviderError);
+        assert.equal(error.status, 400);
+      }
+    });
+
+    it("should stop after maxAttempts", async () => {
+      const onRetry = sandbox.stub();
+
+      nock(CLOUDFLARE_HOST).get(endpoint).times(2).reply(502, "Bad Gateway");
+
+      try {
+        await queuesClient({
+          path,
+          method: "GET",
+          accountId: ACCOUNT_ID,
+          queueId: QUEUE_ID,
+          retryPolicy: { ...retryPolicy, maxAttempts: 2 },
+          onRetry,
+        });
+        assert.fail("Expected error to be thrown");
+      } catch (error) {
+        assert.equal(error.message, "Max retries reached");
+        assert.equal(error.status, 502);
+        sinon.assert.calledOnce(onRetry);
+      }
+    });
+  });
 });
@@ -8,6 +8,7 @@ import { pEvent } from "p-event";
 import nock from "nock";
 
 import { Consumer } from "../../../src/lib/consumer";
+import { Router } from "../../../src/lib/router";
 import { logger } from "../../../src/utils/logger";
 
 import pullMessagesResponse from "../../fixtures/pullMessagesResponse.json";
@@ -23,6 +24,13 @@ const PULL_MESSAGES_ENDPOINT = `/accounts/${ACCOUNT_ID}/queues/${QUEUE_ID}/messa
 const ACK_MESSAGES_ENDPOINT = `/accounts/${ACCOUNT_ID}/queues/${QUEUE_ID}/messages/ack`;
 const QUEUES_API_TOKEN = "queues_token";
 
+const authenticationErrorResponse = {
+  errors: [{ code: 10000, message: "Authentication error" }],
+  messages: [],
+  result: null,
+  success: false,
+};
+
 const currentProcessEnv = { ...process.env };
 
 const sandbox = sinon.createSandbox();
@@ -787,9 +795,126 @@ describe("Consumer", () => {
       );
     });
 
-    it.skip("Waits before re polling when an authentication error occurs", async () => {});
+    it("stops the consumer when an authentication error occurs", async () => {
+      mockPullRequest({ status: 401, response: authenticationErrorResponse });
+      const handleError = sandbox.stub().returns(null);
+      consumer.on("error", handleError);
+
+      consumer.start();
+      const [err] = await Promise.all([
+        pEvent(consumer, "fatal_error"),
+        pEvent(consumer, "stopped"),
+      ]);
+
+      assert.equal(err.status, 401);
+      assert.isFalse(consumer.status.isRunning);
+      sandbox.assert.notCalled(handleError);
+    });
+
+    it("stops the consumer when a 403 or 404 error occurs", async () => {
+      for (const status of [403, 404]) {
+        mockPullRequest({ status, response: authenticationErrorResponse });
+        consumer = new Consumer({
+          accountId: ACCOUNT_ID,
+          queueId: QUEUE_ID,
+          handleMessage,
+        });
+
+        consumer.start();
+        const err = await pEvent(consumer, "fatal_error");
+        await clock.tickAsync(0);
+
+        assert.equal(err.status, status);
+        assert.isFalse(consumer.status.isRunning);
+      }
+    });
+
+    it("keeps polling when onFatalError recovers from the error", async () => {
+      mockPullRequest({ status: 401, response: authenticationErrorResponse });
+      mockPullRequest({});
+      mockAckRequest({});
+      const onFatalError = sandbox.stub().resolves(true);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        onFatalError,
+      });
+
+      consumer.start();
+      const err = await pEvent(consumer, "fatal_error");
+      await clock.tickAsync(1000);
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      sandbox.assert.calledOnceWithExactly(onFatalError, err);
+      sandbox.assert.calledOnce(handleMessage);
+    });
+
+    it("stops the consumer when onFatalError throws", async () => {
+      mockPullRequest({ status: 401, response: authenticationErrorResponse });
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        onFatalError: sandbox.stub().rejects(new Error("Refresh failed")),
+      });
+
+      consumer.start();
+      const err = await pEvent(consumer, "error");
+      await clock.tickAsync(0);
+
+      assert.equal(
+        err.message,
+        "Unexpected onFatalError failure: Refresh failed",
+      );
+      assert.isFalse(consumer.status.isRunning);
+    });
+
+    it("emits an error and polls again when a server error occurs", async () => {
+      mockPullRequest({ status: 500, response: authenticationErrorResponse });
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleFatalError = sandbox.stub().returns(null);
+      consumer.on("fatal_error", handleFatalError);
+
+      consumer.start();
+      await pEvent(consumer, "error");
+      await clock.tickAsync(1000);
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      sandbox.assert.notCalled(handleFatalError);
+      sandbox.assert.calledOnce(handleMessage);
+    });
+
+    it("doesn't poll again when it is stopped while a poll is in flight", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const loggerDebug = sandbox.stub(logger, "debug");
+
+      consumer.start();
+      await pEvent(consumer, "message_received");
+      consumer.stop();
+      await pEvent(consumer, "response_processed");
+      await clock.tickAsync(1000);
+
+      sandbox.assert.neverCalledWithMatch(loggerDebug, "cancelling_poll");
+    });
+
+    it("doesn't poll again when it is stopped after a server error", async () => {
+      mockPullRequest({ status: 500, response: authenticationErrorResponse });
+      const loggerDebug = sandbox.stub(logger, "debug");
+
+      consumer.start();
+      await pEvent(consumer, "error");
+      consumer.stop();
+      await clock.tickAsync(1000);
 
-    it.skip("Waits before re polling when a 403 error occurs", async () => {});
+      sandbox.assert.neverCalledWithMatch(loggerDebug, "cancelling_poll");
+    });
 
     it.skip("Wait before re polling when a polling timeout is set", async () => {});
   });
@@ -1056,47 +1181,1733 @@ describe("Consumer", () => {
     });
   });
 
-  describe("Aborting", () => {
-    beforeEach(() => {
+  describe("Acknowledgement batching", () => {
+    it("acknowledges concurrently handled messages in one request", async () => {
+      mockPullRequest({
+        response: {
+          ...pullMessagesResponse,
+          result: {
+            messages: [
+              ...pullMessagesResponse.result.messages,
+              {
+                ...pullMessagesResponse.result.messages[0],
+                id: "124",
+                lease_id: "lease-id-2",
+              },
+            ],
+          },
+        },
+      });
+      const mockedAckRequest = mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        concurrency: 2,
+        batchAcknowledgements: true,
+        acknowledgementFlushIntervalMs: 100,
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      await pEvent(consumer, "response_processed");
+      sandbox.assert.notCalled(handleAcknowledging);
+      await clock.tickAsync(100);
+      consumer.stop();
+
+      expect(mockedAckRequest).to.have.been.requested;
+      sandbox.assert.calledOnce(handleAcknowledging);
+      assert.lengthOf(handleAcknowledging.firstCall.args[0], 2);
+    });
+
+    it("acknowledges a pulled batch in one request once it has been handled", async () => {
+      mockPullRequest({
+        response: {
+          ...pullMessagesResponse,
+          result: {
+            messages: [
+              ...pullMessagesResponse.result.messages,
+              {
+                ...pullMessagesResponse.result.messages[0],
+                id: "124",
+                lease_id: "lease-id-2",
+              },
+            ],
+          },
+        },
+      });
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        batchAcknowledgements: true,
+        visibilityTimeoutMs: 120000,
+        acknowledgementFlushIntervalMs: 60000,
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      await pEvent(consumer, "acknowledged_messages");
+      consumer.stop();
+
+      sandbox.assert.calledOnce(handleAcknowledging);
+      assert.lengthOf(handleAcknowledging.firstCall.args[0], 2);
+    });
+
+    it("defaults acknowledgementFlushIntervalMs to half of a short visibilityTimeoutMs", async () => {
       mockPullRequest({});
       mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        concurrency: 2,
+        batchAcknowledgements: true,
+      });
+      const handleAcknowledging = sandbox.stub();
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      await pEvent(consumer, "response_processed");
+      await clock.tickAsync(499);
+      sandbox.assert.notCalled(handleAcknowledging);
+      await clock.tickAsync(1);
+      consumer.stop();
+
+      sandbox.assert.calledOnce(handleAcknowledging);
     });
 
-    it.skip('aborts the request when the consumer is stopped with the "abort" option', async () => {});
+    it("requires acknowledgementFlushIntervalMs to be no more than half of visibilityTimeoutMs", () => {
+      assert.throws(
+        () =>
+          new Consumer({
+            accountId: ACCOUNT_ID,
+            queueId: QUEUE_ID,
+            handleMessage,
+            batchAcknowledgements: true,
+            visibilityTimeoutMs: 1000,
+            acknowledgementFlushIntervalMs: 600,
+          }),
+        "acknowledgementFlushIntervalMs must be no more than half of visibilityTimeoutMs.",
+      );
+    });
 
-    it.skip("aborts the request with the correct handler", async () => {});
-  });
+    it("does not update visibilityTimeoutMs to less than twice the flush interval", () => {
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        batchAcknowledgements: true,
+        acknowledgementFlushIntervalMs: 500,
+      });
 
-  describe("Event Listeners", () => {
-    beforeEach(() => {
+      assert.throws(() => {
+        consumer.updateOption("visibilityTimeoutMs", 800);
+      }, "acknowledgementFlushIntervalMs must be no more than half of visibilityTimeoutMs.");
+
+      assert.equal(consumer.visibilityTimeoutMs, 1000);
+    });
+
+    it("flushes buffered acknowledgements when the consumer is stopped", async () => {
       mockPullRequest({});
-      mockAckRequest({});
+      const mockedAckRequest = mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        concurrency: 2,
+        batchAcknowledgements: true,
+        visibilityTimeoutMs: 120000,
+        acknowledgementFlushIntervalMs: 60000,
+      });
+
+      consumer.start();
+      await pEvent(consumer, "message_received");
+      await clock.tickAsync(0);
+      consumer.stop();
+      await pEvent(consumer, "acknowledged_messages");
+
+      expect(mockedAckRequest).to.have.been.requested;
     });
 
-    it.skip("fires the event multiple times", async () => {});
+    it("flushes buffered acknowledgements before aborting", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
 
-    it.skip("fires the events only once", async () => {});
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        concurrency: 2,
+        batchAcknowledgements: true,
+        visibilityTimeoutMs: 120000,
+        acknowledgementFlushIntervalMs: 60000,
+      });
+      const events: string[] = [];
+      consumer.on("acknowledged_messages", () => events.push("acknowledged"));
+      consumer.on("aborted", () => events.push("aborted"));
+
+      consumer.start();
+      await pEvent(consumer, "message_received");
+      await clock.tickAsync(0);
+      await consumer.stop({ abort: true });
+
+      assert.deepEqual(events, ["acknowledged", "aborted"]);
+    });
   });
 
-  describe("Logger", () => {
-    beforeEach(() => {
+  describe("Concurrency", () => {
+    it("requests more messages as soon as a handler slot is free", async () => {
+      const requestedBatchSizes: number[] = [];
+      const secondMessage = {
+        ...pullMessagesResponse.result.messages[0],
+        id: "124",
+        lease_id: "lease-id-2",
+      };
+
+      nock(CLOUDFLARE_HOST)
+        .post(PULL_MESSAGES_ENDPOINT, (body) => {
+          requestedBatchSizes.push(body.batch_size);
+          return true;
+        })
+        .reply(200, {
+          ...pullMessagesResponse,
+          result: {
+            messages: [...pullMessagesResponse.result.messages, secondMessage],
+          },
+        })
+        .post(PULL_MESSAGES_ENDPOINT, (body) => {
+          requestedBatchSizes.push(body.batch_size);
+          return true;
+        })
+        .reply(200, { ...pullMessagesResponse, result: { messages: [] } });
+      mockAckRequest({ persist: true });
+
+      const finishers = {};
+      let bothStarted;
+      const started = new Promise((resolve) => {
+        bothStarted = resolve;
+      });
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        concurrency: 2,
+        handleMessage: (message) =>
+          new Promise((resolve) => {
+            finishers[message.id] = resolve;
+            if (Object.keys(finishers).length === 2) {
+              bothStarted();
+            }
+          }),
+      });
+
+      consumer.start();
+      await started;
+      await clock.tickAsync(0);
+
+      finishers["123"]();
+      await pEvent(consumer, "empty");
+      consumer.stop();
+
+      assert.deepEqual(requestedBatchSizes, [2, 1]);
+      finishers["124"]();
+    });
+
+    it("waits between polls when messages are handled in batches", async () => {
       mockPullRequest({});
       mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessageBatch,
+        concurrency: 2,
+        pollingWaitTimeMs: 1000,
+      });
+
+      consumer.start();
+      await pEvent(consumer, "response_processed");
+      await clock.tickAsync(0);
+      consumer.stop();
+
+      assert.equal(consumer.status.pollingIntervalMs, 1000);
     });
 
-    it("logs a debug event when an event is emitted", async () => {
-      const loggerDebug = sandbox.stub(logger, "debug");
+    it("requires concurrency to be a whole number greater than 0", () => {
+      assert.throws(
+        () =>
+          new Consumer({
+            accountId: ACCOUNT_ID,
+            queueId: QUEUE_ID,
+            handleMessage,
+            concurrency: 0,
+          }),
+        "concurrency must be a whole number greater than 0.",
+      );
+    });
+  });
+
+  describe("Decoding", () => {
+    const jsonMessage = {
+      ...pullMessagesResponse.result.messages[0],
+      body: '{"hello":"world"}',
+      metadata: {
+        ...pullMessagesResponse.result.messages[0].metadata,
+        "CF-Content-Type": "json",
+      },
+    };
+
+    it("passes the decoded body to the handler", async () => {
+      mockPullRequest({
+        response: {
+          ...pullMessagesResponse,
+          result: { messages: [jsonMessage] },
+        },
+      });
+      mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+      });
 
       consumer.start();
       await pEvent(consumer, "message_processed");
       consumer.stop();
 
-      sandbox.assert.callCount(loggerDebug, 9);
-      sandbox.assert.calledWithMatch(loggerDebug, "starting");
-      sandbox.assert.calledWithMatch(loggerDebug, "started");
-      sandbox.assert.calledWithMatch(loggerDebug, "polling");
-      sandbox.assert.calledWithMatch(loggerDebug, "stopping");
-      sandbox.assert.calledWithMatch(loggerDebug, "stopped");
+      sandbox.assert.calledWithMatch(handleMessage, {
+        id: jsonMessage.id,
+        body: { hello: "world" },
+      });
+    });
+
+    it("uses the decodeBody option when it is provided", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        decodeBody: (message) => message.body.toUpperCase(),
+      });
+
+      consumer.start();
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      sandbox.assert.calledWithMatch(handleMessage, { body: "BODY" });
+    });
+
+    it("fires a decode_error event and skips the handler when the body cannot be decoded", async () => {
+      mockPullRequest({
+        response: {
+          ...pullMessagesResponse,
+          result: { messages: [{ ...jsonMessage, body: "{not json" }] },
+        },
+      });
+      const mockedAckRequest = mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+      });
+
+      consumer.start();
+      const [err, message] = await pEvent(consumer, "decode_error", {
+        multiArgs: true,
+      });
+      consumer.stop();
+
+      assert.equal(err.name, "DecodeError");
+      assert.match(err.message, /^Failed to decode the message body: /);
+      assert.equal(message.body, "{not json");
+      sandbox.assert.notCalled(handleMessage);
+      expect(mockedAckRequest).to.not.have.been.requested;
+    });
+
+    it("leaves messages that cannot be decoded out of the batch", async () => {
+      mockPullRequest({
+        response: {
+          ...pullMessagesResponse,
+          result: {
+            messages: [
+              jsonMessage,
+              { ...jsonMessage, id: "124", body: "{not json" },
+            ],
+          },
+        },
+      });
+      mockAckRequest({});
+      const handleDecodeError = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessageBatch,
+      });
+      consumer.on("decode_error", handleDecodeError);
+
+      consumer.start();
+      await pEvent(consumer, "response_processed");
+      consumer.stop();
+
+      sandbox.assert.calledOnce(handleDecodeError);
+      sandbox.assert.calledOnce(handleMessageBatch);
+      assert.lengthOf(handleMessageBatch.firstCall.args[0], 1);
+      assert.deepEqual(handleMessageBatch.firstCall.args[0][0].body, {
+        hello: "world",
+      });
+    });
+  });
+
+  describe("Validation", () => {
+    it("passes valid messages to the handler", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        validate: (message) => message.body === "body",
+      });
+
+      consumer.start();
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      sandbox.assert.calledOnce(handleMessage);
+    });
+
+    it("fires an invalid_message event and skips the handler for invalid messages", async () => {
+      mockPullRequest({});
+      const mockedAckRequest = mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        validate: () => false,
+      });
+
+      consumer.start();
+      const [err, message] = await pEvent(consumer, "invalid_message", {
+        multiArgs: true,
+      });
+      consumer.stop();
+
+      assert.equal(err.name, "ValidationError");
+      assert.lengthOf(err.issues, 1);
+      assert.equal(message.id, pullMessagesResponse.result.messages[0].id);
+      sandbox.assert.notCalled(handleMessage);
+      expect(mockedAckRequest).to.not.have.been.requested;
+    });
+
+    it("acknowledges invalid messages when invalidMessageAction is ack", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        validate: () => false,
+        invalidMessageAction: "ack",
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      await pEvent(consumer, "acknowledged_messages");
+      consumer.stop();
+
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [{ lease_id: "lease-id" }],
+        [],
+      );
+    });
+
+    it("retries invalid messages when invalidMessageAction is retry", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessageBatch,
+        validate: () => false,
+        invalidMessageAction: "retry",
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      await pEvent(consumer, "acknowledged_messages");
+      consumer.stop();
+
+      sandbox.assert.notCalled(handleMessageBatch);
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 10 }],
+      );
+    });
+
+    it("requires validate to be a function or a standard schema", () => {
+      assert.throws(
+        () =>
+          new Consumer({
+            accountId: ACCOUNT_ID,
+            queueId: QUEUE_ID,
+            handleMessage,
+            validate: {},
+          }),
+        "validate must be a function or a Standard Schema.",
+      );
+    });
+  });
+
+  describe("Dead lettering", () => {
+    const lastAttemptResponse = {
+      ...pullMessagesResponse,
+      result: {
+        messages: [{ ...pullMessagesResponse.result.messages[0], attempts: 3 }],
+      },
+    };
+
+    it("dead letters and acknowledges a message that fails on its last attempt", async () => {
+      mockPullRequest({ response: lastAttemptResponse });
+      mockAckRequest({});
+      const deadLetter = sandbox.stub().resolves();
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage: sandbox.stub().rejects(new Error("Processing error")),
+        retryMessagesOnError: true,
+        maxAttempts: 3,
+        deadLetter,
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      const [message, err] = await pEvent(consumer, "message_dead_lettered", {
+        multiArgs: true,
+      });
+      consumer.stop();
+
+      assert.equal(message.id, "123");
+      assert.equal(
+        err.message,
+        "Unexpected message handler failure: Processing error",
+      );
+      sandbox.assert.calledOnce(deadLetter);
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [{ lease_id: "lease-id" }],
+        [],
+      );
+    });
+
+    it("retries messages that have not reached maxAttempts", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const deadLetter = sandbox.stub().resolves();
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage: sandbox.stub().rejects(new Error("Processing error")),
+        retryMessagesOnError: true,
+        maxAttempts: 3,
+        deadLetter,
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      await pEvent(consumer, "acknowledged_messages");
+      consumer.stop();
+
+      sandbox.assert.notCalled(deadLetter);
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 10 }],
+      );
+    });
+
+    it("retries the message and fires an error event when it can't be dead lettered", async () => {
+      mockPullRequest({ response: lastAttemptResponse });
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+      const handleError = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage: sandbox.stub().rejects(new Error("Processing error")),
+        retryMessagesOnError: true,
+        maxAttempts: 3,
+        deadLetter: sandbox.stub().rejects(new Error("Sink unavailable")),
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+      consumer.on("error", handleError);
+
+      consumer.start();
+      await pEvent(consumer, "acknowledged_messages", { rejectionEvents: [] });
+      consumer.stop();
+
+      sandbox.assert.calledWithMatch(handleError, {
+        message: "Error dead lettering message: Sink unavailable",
+      });
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 10 }],
+      );
+    });
+
+    it("requires deadLetter to be set when maxAttempts is set", () => {
+      assert.throws(
+        () =>
+          new Consumer({
+            accountId: ACCOUNT_ID,
+            queueId: QUEUE_ID,
+            handleMessage,
+            maxAttempts: 3,
+          }),
+        "maxAttempts requires the deadLetter option to be set.",
+      );
+    });
+  });
+
+  describe("Retry delays", () => {
+    it("uses the retryMessageDelay function to delay each retry", async () => {
+      mockPullRequest({
+        response: {
+          ...pullMessagesResponse,
+          result: {
+            messages: [
+              { ...pullMessagesResponse.result.messages[0], attempts: 4 },
+            ],
+          },
+        },
+      });
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+      const retryMessageDelay = sandbox
+        .stub()
+        .callsFake((message) => message.attempts * 30);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage: sandbox.stub().rejects(new Error("Processing error")),
+        retryMessagesOnError: true,
+        retryMessageDelay,
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      await pEvent(consumer, "acknowledged_messages");
+      consumer.stop();
+
+      sandbox.assert.calledWithMatch(
+        retryMessageDelay,
+        { id: "123" },
+        { message: "Unexpected message handler failure: Processing error" },
+      );
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 120 }],
+      );
+    });
+
+    it("caps the delays from a retryMessageDelay function at 42300", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage: sandbox.stub().rejects(new Error("Processing error")),
+        retryMessagesOnError: true,
+        retryMessageDelay: () => 100000,
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      await pEvent(consumer, "acknowledged_messages");
+      consumer.stop();
+
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 42300 }],
+      );
+    });
+  });
+
+  describe("Batch results", () => {
+    const batchResponse = {
+      ...pullMessagesResponse,
+      result: {
+        messages: ["1", "2", "3", "4"].map((id) => ({
+          ...pullMessagesResponse.result.messages[0],
+          id,
+          lease_id: `lease-${id}`,
+        })),
+      },
+    };
+
+    it("acknowledges and retries the messages from the result in one request", async () => {
+      mockPullRequest({ response: batchResponse });
+      const mockedAckRequest = mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+      const handleProcessed = sandbox.stub().returns(null);
+      const handleRetried = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessageBatch: async ([first, second, third]) => ({
+          ack: [first],
+          retry: [second, { message: third, delaySeconds: 60 }],
+        }),
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+      consumer.on("message_processed", handleProcessed);
+      consumer.on("message_retried", handleRetried);
+
+      consumer.start();
+      await pEvent(consumer, "response_processed");
+      consumer.stop();
+
+      expect(mockedAckRequest).to.have.been.requested;
+      sandbox.assert.calledOnceWithExactly(
+        handleAcknowledging,
+        [{ lease_id: "lease-1" }],
+        [
+          { lease_id: "lease-2", delay_seconds: 10 },
+          { lease_id: "lease-3", delay_seconds: 60 },
+        ],
+      );
+      sandbox.assert.calledOnceWithMatch(handleProcessed, { id: "1" });
+      sandbox.assert.calledTwice(handleRetried);
+      sandbox.assert.calledWithMatch(handleRetried, { id: "3" }, 60);
+    });
+
+    it("dead letters the messages from the result", async () => {
+      mockPullRequest({ response: batchResponse });
+      mockAckRequest({});
+      const deadLetter = sandbox.stub().resolves();
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        deadLetter,
+        handleMessageBatch: async ([first, , , fourth]) => ({
+          ack: [first],
+          deadLetter: [fourth],
+        }),
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      const [message] = await pEvent(consumer, "message_dead_lettered", {
+        multiArgs: true,
+      });
+      consumer.stop();
+
+      assert.equal(message.id, "4");
+      sandbox.assert.calledOnceWithMatch(deadLetter, { id: "4" });
+      sandbox.assert.calledOnceWithExactly(
+        handleAcknowledging,
+        [{ lease_id: "lease-1" }, { lease_id: "lease-4" }],
+        [],
+      );
+    });
+  });
+
+  describe("Draining", () => {
+    it("waits for in-flight handlers and acknowledgements before stopping", async () => {
+      mockPullRequest({});
+      const mockedAckRequest = mockAckRequest({});
+      const handleDraining = sandbox.stub().returns(null);
+      const handleStop = sandbox.stub().returns(null);
+      let finishHandler;
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage: () =>
+          new Promise((resolve) => {
+            finishHandler = resolve;
+          }),
+      });
+      consumer.on("draining", handleDraining);
+      consumer.on("stopped", handleStop);
+
+      consumer.start();
+      await pEvent(consumer, "message_received");
+
+      let stopped = false;
+      const stopping = consumer
+        .stop({ waitForInFlight: true })
+        .then(() => (stopped = true));
+
+      await clock.tickAsync(0);
+      assert.isFalse(stopped);
+      sandbox.assert.calledWithExactly(handleDraining, {
+        handlers: 1,
+        acknowledgements: 0,
+      });
+
+      finishHandler();
+      await stopping;
+
+      expect(mockedAckRequest).to.have.been.requested;
+      sandbox.assert.calledOnceWithExactly(handleStop, {
+        handlers: 0,
+        acknowledgements: 0,
+      });
+    });
+
+    it("abandons in-flight handlers once the timeout has passed", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleStop = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage: () => new Promise(() => {}),
+      });
+      consumer.on("stopped", handleStop);
+
+      consumer.start();
+      await pEvent(consumer, "message_received");
+
+      const stopping = consumer.stop({ waitForInFlight: true, timeoutMs: 500 });
+      await clock.tickAsync(500);
+      await stopping;
+
+      sandbox.assert.calledOnceWithExactly(handleStop, {
+        handlers: 1,
+        acknowledgements: 0,
+      });
+    });
+
+    it("sends buffered acknowledgements before stopping", async () => {
+      mockPullRequest({});
+      const mockedAckRequest = mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        concurrency: 2,
+        batchAcknowledgements: true,
+        visibilityTimeoutMs: 120000,
+        acknowledgementFlushIntervalMs: 60000,
+      });
+
+      consumer.start();
+      await pEvent(consumer, "message_received");
+      await consumer.stop({ waitForInFlight: true });
+
+      expect(mockedAckRequest).to.have.been.requested;
+    });
+  });
+
+  describe("Signal handling", () => {
+    it("listens for termination signals while the consumer is running", async () => {
+      mockPullRequest({ persist: true });
+      mockAckRequest({ persist: true });
+      const initialListeners = process.listenerCount("SIGTERM");
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        handleSignals: { timeoutMs: 1000 },
+      });
+
+      consumer.start();
+      assert.equal(process.listenerCount("SIGTERM"), initialListeners + 1);
+
+      await consumer.stop();
+      assert.equal(process.listenerCount("SIGTERM"), initialListeners);
+    });
+
+    it("stops waiting for in-flight handlers when it is aborted while draining", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleStop = sandbox.stub().returns(null);
+      const handleAbort = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage: () => new Promise(() => {}),
+      });
+      consumer.on("stopped", handleStop);
+      consumer.on("aborted", handleAbort);
+
+      consumer.start();
+      await pEvent(consumer, "message_received");
+
+      const draining = consumer.stop({ waitForInFlight: true });
+      await consumer.stop({ abort: true });
+      await draining;
+
+      sandbox.assert.calledOnce(handleAbort);
+      sandbox.assert.calledOnceWithExactly(handleStop, {
+        handlers: 1,
+        acknowledgements: 0,
+      });
+    });
+  });
+
+  describe("Adaptive polling", () => {
+    beforeEach(() => {
+      sandbox.stub(Math, "random").returns(0.5);
+    });
+
+    it("backs off exponentially on consecutive empty responses", async () => {
+      mockPullRequest({
+        persist: true,
+        response: { ...pullMessagesResponse, result: { messages: [] } },
+      });
+      const intervals: number[] = [];
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        adaptivePolling: { maxPollingWaitTimeMs: 3000 },
+      });
+      consumer.on("empty", () => {
+        setImmediate(() => intervals.push(consumer.status.pollingIntervalMs));
+      });
+
+      consumer.start();
+      await pEvent(consumer, "empty");
+      await clock.tickAsync(1000);
+      await pEvent(consumer, "empty");
+      await clock.tickAsync(2000);
+      await pEvent(consumer, "empty");
+      await clock.tickAsync(0);
+      consumer.stop();
+
+      assert.deepEqual(intervals, [1000, 2000, 3000]);
+    });
+
+    it("polls again straight away after a full batch", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        batchSize: 1,
+        adaptivePolling: true,
+      });
+
+      consumer.start();
+      await pEvent(consumer, "response_processed");
+      await clock.tickAsync(0);
+      consumer.stop();
+
+      assert.equal(consumer.status.pollingIntervalMs, 0);
+    });
+
+    it("applies jitter to the interval", async () => {
+      (Math.random as sinon.SinonStub).returns(1);
+      mockPullRequest({
+        response: { ...pullMessagesResponse, result: { messages: [] } },
+      });
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        adaptivePolling: { jitter: 0.1 },
+      });
+
+      consumer.start();
+      await pEvent(consumer, "empty");
+      await clock.tickAsync(0);
+      consumer.stop();
+
+      assert.equal(consumer.status.pollingIntervalMs, 1100);
+    });
+  });
+
+  describe("Circuit breaker", () => {
+    it("stops polling while the circuit is open and closes after a successful probe", async () => {
+      mockPullRequest({ status: 500, response: authenticationErrorResponse });
+      mockPullRequest({ status: 500, response: authenticationErrorResponse });
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleError = sandbox.stub().returns(null);
+      const handleHalfOpen = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 5000 },
+      });
+      consumer.on("error", handleError);
+      consumer.on("circuit_half_open", handleHalfOpen);
+      const opened = pEvent(consumer, "circuit_opened", {
+        rejectionEvents: [],
+      });
+
+      consumer.start();
+      await pEvent(consumer, "error");
+      await clock.tickAsync(1000);
+      const err = await opened;
+      await clock.tickAsync(3000);
+
+      assert.equal(err.status, 500);
+      sandbox.assert.notCalled(handleHalfOpen);
+      sandbox.assert.notCalled(handleMessage);
+
+      const closed = pEvent(consumer, "circuit_closed");
+      await clock.tickAsync(2000);
+      await closed;
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      sandbox.assert.calledOnce(handleHalfOpen);
+      sandbox.assert.calledOnce(handleMessage);
+      sandbox.assert.calledTwice(handleError);
+    });
+
+    it("fails acknowledgements fast while the circuit is open", async () => {
+      mockPullRequest({});
+      mockAckRequest({ status: 500, response: authenticationErrorResponse });
+      mockPullRequest({});
+      const handleError = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        circuitBreaker: { failureThreshold: 1 },
+      });
+      consumer.on("error", handleError);
+
+      consumer.start();
+      await pEvent(consumer, "circuit_opened", { rejectionEvents: [] });
+      await clock.tickAsync(1000);
+      consumer.stop();
+
+      sandbox.assert.calledOnce(handleMessage);
+      sandbox.assert.calledOnce(handleError);
+      assert.isFalse(nock.isDone());
+    });
+  });
+
+  describe("Metrics", () => {
+    it("doesn't collect metrics by default", () => {
+      assert.isUndefined(consumer.metrics);
+    });
+
+    it("counts polls, messages and acknowledgements", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      mockPullRequest({
+        response: { ...pullMessagesResponse, result: { messages: [] } },
+      });
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        metrics: true,
+      });
+
+      consumer.start();
+      await pEvent(consumer, "response_processed");
+      await clock.tickAsync(1000);
+      await pEvent(consumer, "empty");
+      consumer.stop();
+
+      const { counters, handlerDuration, apiLatency } =
+        consumer.metrics.snapshot();
+
+      assert.equal(counters.polls, 2);
+      assert.equal(counters.emptyPolls, 1);
+      assert.equal(counters.messagesReceived, 1);
+      assert.equal(counters.messagesAcknowledged, 1);
+      assert.equal(handlerDuration.count, 1);
+      assert.equal(apiLatency.pull.count, 2);
+      assert.equal(apiLatency.ack.count, 1);
+    });
+
+    it("counts failed messages and API errors by status", async () => {
+      mockPullRequest({});
+      mockAckRequest({ status: 500, response: authenticationErrorResponse });
+      handleMessage.rejects(new Error("Processing error"));
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        retryMessagesOnError: true,
+        metrics: true,
+      });
+      consumer.on("error", () => {});
+
+      consumer.start();
+      await pEvent(consumer, "processing_error");
+      await pEvent(consumer, "error");
+      consumer.stop();
+
+      const { counters, apiErrors } = consumer.metrics.snapshot();
+
+      assert.equal(counters.messagesFailed, 1);
+      assert.equal(counters.messagesRetried, 0);
+      assert.deepEqual(apiErrors, { "500": 1 });
+    });
+  });
+
+  describe("Tracing", () => {
+    function createTracer() {
+      const spans = [];
+      const tracer = {
+        startSpan: sandbox.stub().callsFake((name, options, context) => {
+          const span = {
+            name,
+            options,
+            context,
+            spanContext: () => ({
+              traceId: "a".repeat(32),
+              spanId: name,
+              traceFlags: 1,
+            }),
+            setAttribute: sandbox.stub(),
+            setStatus: sandbox.stub(),
+            recordException: sandbox.stub(),
+            end: sandbox.stub(),
+          };
+          spans.push(span);
+          return span;
+        }),
+      };
+
+      return { spans, tracer };
+    }
+
+    it("creates spans for the poll, handler, requests and acknowledgement", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const { spans, tracer } = createTracer();
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        tracing: {
+          tracer,
+          setSpanContext: (spanContext) => spanContext.spanId,
+        },
+      });
+
+      consumer.start();
+      await pEvent(consumer, "response_processed");
+      await clock.tickAsync(0);
+      consumer.stop();
+
+      assert.deepEqual(
+        spans.map((span) => [span.name, span.context]),
+        [
+          ["poll", undefined],
+          ["queuesClient messages/pull", "poll"],
+          ["handleMessage", "poll"],
+          ["acknowledgeMessage", undefined],
+          ["queuesClient messages/ack", "acknowledgeMessage"],
+        ],
+      );
+      assert.deepEqual(spans[2].options.attributes, {
+        "messaging.system": "cloudflare_queues",
+        "messaging.destination.name": QUEUE_ID,
+        "messaging.message.id": "123",
+        "messaging.cloudflare_queues.attempts": 1,
+      });
+      spans.forEach((span) => sandbox.assert.calledOnce(span.end));
+    });
+
+    it("continues the producer's trace from a traceparent in the body", async () => {
+      const traceparent =
+        "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+      const message = pullMessagesResponse.result.messages[0];
+      mockPullRequest({
+        response: {
+          ...pullMessagesResponse,
+          result: {
+            messages: [
+              {
+                ...message,
+                body: JSON.stringify({ traceparent }),
+                metadata: { ...message.metadata, "CF-Content-Type": "json" },
+              },
+            ],
+          },
+        },
+      });
+      mockAckRequest({});
+      const { spans, tracer } = createTracer();
+      const setSpanContext = sandbox.stub().returns("producer-context");
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        tracing: { tracer, setSpanContext },
+      });
+
+      consumer.start();
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      const handlerSpan = spans.find((span) => span.name === "handleMessage");
+
+      assert.equal(handlerSpan.context, "producer-context");
+      sandbox.assert.calledWithMatch(setSpanContext, {
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+      });
+    });
+  });
+
+  describe("Health", () => {
+    it("is unhealthy before it has started", () => {
+      const report = consumer.health();
+
+      assert.isFalse(report.healthy);
+      assert.isFalse(report.ready);
+      assert.deepEqual(report.reasons, ["The consumer is not running."]);
+    });
+
+    it("reports the last successful poll and acknowledgement", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+
+      consumer.start();
+      await pEvent(consumer, "response_processed");
+
+      const report = consumer.health();
+      consumer.stop();
+
+      assert.isTrue(report.healthy);
+      assert.isTrue(report.ready);
+      assert.equal(report.queueId, QUEUE_ID);
+      assert.deepEqual(report.lastPollAt, new Date(0));
+      assert.deepEqual(report.lastAckAt, new Date(0));
+      assert.equal(report.inFlightMessages, 0);
+    });
+
+    it("counts the messages that are in flight", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      let finishHandler: () => void;
+      handleMessage.callsFake(
+        () =>
+          new Promise<void>((resolve) => {
+            finishHandler = resolve;
+          }),
+      );
+
+      consumer.start();
+      await pEvent(consumer, "message_received");
+      await clock.tickAsync(0);
+
+      assert.equal(consumer.health().inFlightMessages, 1);
+
+      finishHandler();
+      await pEvent(consumer, "response_processed");
+      consumer.stop();
+
+      assert.equal(consumer.health().inFlightMessages, 0);
+    });
+
+    it("becomes unhealthy after consecutive poll errors", async () => {
+      mockPullRequest({
+        persist: true,
+        status: 500,
+        response: authenticationErrorResponse,
+      });
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        healthThresholds: { maxConsecutivePollErrors: 2 },
+      });
+      consumer.on("error", () => {});
+
+      consumer.start();
+      await pEvent(consumer, "error");
+      assert.isTrue(consumer.health().healthy);
+
+      await clock.tickAsync(1000);
+      await pEvent(consumer, "error");
+      const report = consumer.health();
+      consumer.stop();
+
+      assert.isFalse(report.healthy);
+      assert.equal(report.consecutivePollErrors, 2);
+      assert.deepEqual(report.reasons, ["2 consecutive polls have failed."]);
+    });
+
+    it("stays healthy but isn't ready while the circuit breaker is open", async () => {
+      mockPullRequest({
+        persist: true,
+        status: 500,
+        response: authenticationErrorResponse,
+      });
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        circuitBreaker: { failureThreshold: 1 },
+        healthThresholds: { maxConsecutivePollErrors: 1 },
+      });
+      consumer.on("error", () => {});
+
+      consumer.start();
+      await pEvent(consumer, "circuit_opened", { rejectionEvents: [] });
+      const report = consumer.health();
+      consumer.stop();
+
+      assert.isTrue(report.healthy);
+      assert.isFalse(report.ready);
+      assert.equal(report.circuitState, "open");
+      assert.deepEqual(report.reasons, ["The circuit breaker is open."]);
+    });
+
+    it("becomes unhealthy when it hasn't polled successfully for too long", async () => {
+      mockPullRequest({ timeout: 5000 });
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        healthThresholds: { maxPollAgeMs: 1000 },
+      });
+
+      consumer.start();
+      await clock.tickAsync(1001);
+      const report = consumer.health();
+      consumer.stop({ abort: true });
+
+      assert.isFalse(report.healthy);
+      assert.deepEqual(report.reasons, [
+        "There hasn't been a successful poll for 1000ms.",
+      ]);
+    });
+  });
+
+  describe("Rate limiting", () => {
+    it("waits for the rate limiter of the account before polling", async () => {
+      let pulls = 0;
+      nock(CLOUDFLARE_HOST)
+        .persist()
+        .post(PULL_MESSAGES_ENDPOINT)
+        .reply(200, () => {
+          pulls++;
+          return { ...pullMessagesResponse, result: { messages: [] } };
+        });
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        rateLimit: { requestsPerSecond: 0.5, burst: 1, reservedTokens: 0 },
+        metrics: true,
+      });
+
+      consumer.start();
+      await pEvent(consumer, "empty");
+      await clock.tickAsync(1500);
+
+      assert.equal(pulls, 1);
+      assert.deepInclude(consumer.metrics.snapshot().rateLimiter, {
+        waiting: { high: 0, low: 1 },
+        throttledRequests: 1,
+      });
+
+      await clock.tickAsync(500);
+      await pEvent(consumer, "empty");
+      consumer.stop();
+
+      assert.equal(pulls, 2);
+    });
+
+    it("requires reservedTokens to be less than burst", () => {
+      assert.throws(
+        () =>
+          new Consumer({
+            accountId: ACCOUNT_ID,
+            queueId: QUEUE_ID,
+            handleMessage,
+            rateLimit: { burst: 2, reservedTokens: 2 },
+          }),
+        "rateLimit.reservedTokens must be a whole number that is less than burst.",
+      );
+    });
+  });
+
+  describe("Middleware", () => {
+    it("runs the middleware around the handler in the order it was added", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const calls: string[] = [];
+      handleMessage.callsFake(async () => {
+        calls.push("handler");
+      });
+
+      consumer
+        .use(async (ctx, next) => {
+          calls.push(`outer ${ctx.message.id}`);
+          await next();
+          calls.push("outer done");
+        })
+        .use(async (ctx, next) => {
+          calls.push(`inner ${ctx.queueId === QUEUE_ID}`);
+          await next();
+          calls.push("inner done");
+        });
+
+      consumer.start();
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      assert.deepEqual(calls, [
+        "outer 123",
+        "inner true",
+        "handler",
+        "inner done",
+        "outer done",
+      ]);
+    });
+
+    it("acknowledges the message without calling the handler", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.use((ctx) => {
+        ctx.ack();
+      });
+
+      consumer.start();
+      const message = await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      assert.equal(message.id, "123");
+      sandbox.assert.notCalled(handleMessage);
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [{ lease_id: "lease-id" }],
+        [],
+      );
+    });
+
+    it("can turn a handler error into a retry", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+      const handleError = sandbox.stub().returns(null);
+      consumer.on("acknowledging_messages", handleAcknowledging);
+      consumer.on("error", handleError);
+      handleMessage.rejects(new Error("Rate limited"));
+
+      consumer.use(async (ctx, next) => {
+        try {
+          await next();
+        } catch {
+          ctx.retry(30);
+        }
+      });
+
+      consumer.start();
+      const [message, delaySeconds] = await pEvent(
+        consumer,
+        "message_retried",
+        { multiArgs: true },
+      );
+      consumer.stop();
+
+      assert.equal(message.id, "123");
+      assert.equal(delaySeconds, 30);
+      sandbox.assert.notCalled(handleError);
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 30 }],
+      );
+    });
+
+    it("can replace the result of the batch handler", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessageBatch: sandbox.stub().resolves([]),
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.use(async (ctx, next) => {
+        await next();
+
+        assert.isTrue(ctx.isBatch);
+        assert.deepEqual(ctx.result, []);
+        ctx.result = { retry: ctx.messages };
+      });
+
+      consumer.start();
+      await pEvent(consumer, "message_retried");
+      consumer.stop();
+
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 10 }],
+      );
+    });
+
+    it("retries the message when a middleware skips the handler without a result", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.use(() => {});
+
+      consumer.start();
+      await pEvent(consumer, "message_retried");
+      consumer.stop();
+
+      sandbox.assert.notCalled(handleMessage);
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 10 }],
+      );
+    });
+
+    it("keeps the result that middleware sets when alwaysAcknowledge is set", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        alwaysAcknowledge: true,
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.use(async (ctx, next) => {
+        await next();
+        ctx.retry(30);
+      });
+
+      consumer.start();
+      await pEvent(consumer, "message_retried");
+      consumer.stop();
+
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 30 }],
+      );
+    });
+
+    it("requires middleware to be a function", () => {
+      assert.throws(
+        () => consumer.use("middleware"),
+        "middleware must be a function.",
+      );
+    });
+  });
+
+  describe("Routing", () => {
+    it("applies the outcome that a router returns from handleMessage", async () => {
+      mockPullRequest({});
+      mockAckRequest({});
+      const handleAcknowledging = sandbox.stub().returns(null);
+      const router = new Router({
+        discriminator: (message) => message.metadata["CF-Content-Type"],
+      }).route("text", async (message) => ({ retry: [message] }));
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage: router.handleMessage,
+      });
+      consumer.on("acknowledging_messages", handleAcknowledging);
+
+      consumer.start();
+      await pEvent(consumer, "message_retried");
+      consumer.stop();
+
+      sandbox.assert.calledWith(
+        handleAcknowledging,
+        [],
+        [{ lease_id: "lease-id", delay_seconds: 10 }],
+      );
+    });
+  });
+
+  describe("Aborting", () => {
+    beforeEach(() => {
+      mockPullRequest({});
+      mockAckRequest({});
+    });
+
+    it.skip('aborts the request when the consumer is stopped with the "abort" option', async () => {});
+
+    it.skip("aborts the request with the correct handler", async () => {});
+  });
+
+  describe("Event Listeners", () => {
+    beforeEach(() => {
+      mockPullRequest({});
+      mockAckRequest({});
+    });
+
+    it.skip("fires the event multiple times", async () => {});
+
+    it.skip("fires the events only once", async () => {});
+  });
+
+  describe("Logger", () => {
+    beforeEach(() => {
+      mockPullRequest({});
+      mockAckRequest({});
+    });
+
+    it("logs a debug event when an event is emitted", async () => {
+      const loggerDebug = sandbox.stub(logger, "debug");
+
+      consumer.start();
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      sandbox.assert.callCount(loggerDebug, 9);
+      sandbox.assert.calledWithMatch(loggerDebug, "starting");
+      sandbox.assert.calledWithMatch(loggerDebug, "started");
+      sandbox.assert.calledWithMatch(loggerDebug, "polling");
+      sandbox.assert.calledWithMatch(loggerDebug, "stopping");
+      sandbox.assert.calledWithMatch(loggerDebug, "stopped");
+    });
+
+    it("sends structured logs to the logger option", async () => {
+      const customLogger = {
+        debug: sandbox.stub(),
+        info: sandbox.stub(),
+        warn: sandbox.stub(),
+        error: sandbox.stub(),
+      };
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        logger: customLogger,
+      });
+
+      consumer.start();
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      sandbox.assert.calledWith(
+        customLogger.info,
+        { queueId: QUEUE_ID, event: "started" },
+        "started",
+      );
+      sandbox.assert.calledWith(
+        customLogger.debug,
+        {
+          queueId: QUEUE_ID,
+          event: "message_received",
+          messageId: "123",
+          leaseId: "lease-id",
+          attempt: 1,
+        },
+        "message_received",
+      );
+    });
+
+    it("logs message bodies when redactMessageBodies is false", async () => {
+      const customLogger = {
+        debug: sandbox.stub(),
+        info: sandbox.stub(),
+        warn: sandbox.stub(),
+        error: sandbox.stub(),
+      };
+
+      consumer = new Consumer({
+        accountId: ACCOUNT_ID,
+        queueId: QUEUE_ID,
+        handleMessage,
+        logger: customLogger,
+        redactMessageBodies: false,
+      });
+
+      consumer.start();
+      await pEvent(consumer, "message_processed");
+      consumer.stop();
+
+      sandbox.assert.calledWithMatch(
+        customLogger.debug,
+        { event: "message_received", body: "body" },
+        "message_received",
+      );
+    });
+
+    it("requires the logger to have a method for every level", () => {
+      assert.throws(
+        () =>
+          new Consumer({
+            accountId: ACCOUNT_ID,
+            queueId: QUEUE_ID,
+            handleMessage,
+            // @ts-expect-error
+            logger: { info: () => {} },
+          }),
+        "logger must have debug, info, warn and error methods.",
+      );
     });
   });
 });
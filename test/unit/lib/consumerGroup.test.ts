@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { assert } from "chai";
+import * as sinon from "sinon";
+import { pEvent } from "p-event";
+import nock from "nock";
+
+import { ConsumerGroup } from "../../../src/lib/consumerGroup";
+
+import pullMessagesResponse from "../../fixtures/pullMessagesResponse.json";
+import ackMessagesResponse from "../../fixtures/ackMessagesResponse.json";
+
+nock.disableNetConnect();
+
+const ACCOUNT_ID = "023e105f4ecef8ad9ca31a8372d0c353";
+const QUEUE_A = "queue-a";
+const QUEUE_B = "queue-b";
+const CLOUDFLARE_HOST = "https://api.cloudflare.com/client/v4";
+const QUEUES_API_TOKEN = "queues_token";
+
+const emptyResponse = { ...pullMessagesResponse, result: { messages: [] } };
+
+function mockQueue(queueId: string, messageId?: string) {
+  const endpoint = `/accounts/${ACCOUNT_ID}/queues/${queueId}/messages`;
+  const scope = nock(CLOUDFLARE_HOST);
+
+  if (messageId) {
+    scope.post(`${endpoint}/pull`).reply(200, {
+      ...pullMessagesResponse,
+      result: {
+        messages: [
+          { ...pullMessagesResponse.result.messages[0], id: messageId },
+        ],
+      },
+    });
+  }
+
+  scope
+    .persist()
+    .post(`${endpoint}/pull`)
+    .reply(200, emptyResponse)
+    .post(`${endpoint}/ack`)
+    .reply(200, ackMessagesResponse);
+
+  return scope;
+}
+
+describe("ConsumerGroup", () => {
+  let clock: sinon.SinonFakeTimers;
+  let group: ConsumerGroup;
+  const currentProcessEnv = { ...process.env };
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+    process.env.QUEUES_API_TOKEN = QUEUES_API_TOKEN;
+
+    if (!nock.isActive()) {
+      nock.activate();
+    }
+    nock.cleanAll();
+  });
+
+  afterEach(async () => {
+    if (group) {
+      await group.stop();
+    }
+    process.env = currentProcessEnv;
+    clock.restore();
+    nock.cleanAll();
+    nock.restore();
+  });
+
+  it("creates a consumer for each queue with the options of the queue", async () => {
+    const handleMessage = sinon.stub().resolves();
+    const handleQueueB = sinon.stub().resolves();
+    mockQueue(QUEUE_A, "1");
+    mockQueue(QUEUE_B, "2");
+
+    group = new ConsumerGroup({
+      accountId: ACCOUNT_ID,
+      handleMessage,
+      queues: [
+        { queueId: QUEUE_A },
+        { queueId: QUEUE_B, handleMessage: handleQueueB },
+      ],
+    });
+
+    assert.lengthOf(group.consumers, 2);
+    assert.strictEqual(group.get(QUEUE_B), group.consumers[1]);
+    assert.isUndefined(group.get("unknown"));
+
+    group.start();
+    await Promise.all([
+      pEvent(group, "message_processed", {
+        filter: (queueId) => queueId === QUEUE_A,
+      }),
+      pEvent(group, "message_processed", {
+        filter: (queueId) => queueId === QUEUE_B,
+      }),
+    ]);
+
+    sinon.assert.calledOnceWithMatch(handleMessage, { id: "1" });
+    sinon.assert.calledOnceWithMatch(handleQueueB, { id: "2" });
+  });
+
+  it("starts and stops every consumer together", async () => {
+    mockQueue(QUEUE_A);
+    mockQueue(QUEUE_B);
+
+    group = new ConsumerGroup({
+      accountId: ACCOUNT_ID,
+      handleMessage: sinon.stub().resolves(),
+      queues: [{ queueId: QUEUE_A }, { queueId: QUEUE_B }],
+    });
+
+    const started = sinon.spy();
+    group.on("started", started);
+    group.start();
+
+    assert.deepEqual(
+      started.getCalls().map((call) => call.args),
+      [[QUEUE_A], [QUEUE_B]],
+    );
+    assert.isTrue(group.status[QUEUE_A].isRunning);
+    assert.isTrue(group.status[QUEUE_B].isRunning);
+
+    await group.stop();
+
+    assert.isFalse(group.status[QUEUE_A].isRunning);
+    assert.isFalse(group.status[QUEUE_B].isRunning);
+  });
+
+  it("re-emits the events of each consumer with its queue ID", async () => {
+    mockQueue(QUEUE_A, "1");
+    mockQueue(QUEUE_B);
+
+    group = new ConsumerGroup({
+      accountId: ACCOUNT_ID,
+      handleMessage: sinon.stub().rejects(new Error("Handler failed")),
+      queues: [{ queueId: QUEUE_A }, { queueId: QUEUE_B }],
+    });
+
+    group.start();
+    const [queueId, err, message] = await pEvent(group, "processing_error", {
+      multiArgs: true,
+    });
+
+    assert.equal(queueId, QUEUE_A);
+    assert.equal(
+      err.message,
+      "Unexpected message handler failure: Handler failed",
+    );
+    assert.equal(message.id, "1");
+  });
+
+  it("limits how many messages are handled at once across every queue", async () => {
+    mockQueue(QUEUE_A, "1");
+    const queueB = mockQueue(QUEUE_B, "2");
+    const pulledFromB = pEvent(queueB, "replied");
+
+    const finishers: Record<string, () => void> = {};
+    const handleMessage = sinon.spy(
+      (message) =>
+        new Promise<void>((resolve) => {
+          finishers[message.id] = resolve;
+        }),
+    );
+
+    group = new ConsumerGroup({
+      accountId: ACCOUNT_ID,
+      concurrency: 1,
+      handleMessage,
+      queues: [{ queueId: QUEUE_A }, { queueId: QUEUE_B }],
+    });
+
+    group.start();
+    await Promise.all([pEvent(group, "message_received"), pulledFromB]);
+    await clock.tickAsync(0);
+
+    sinon.assert.calledOnce(handleMessage);
+
+    const [first] = Object.keys(finishers);
+    finishers[first]();
+    await pEvent(group, "message_received");
+    await clock.tickAsync(0);
+
+    sinon.assert.calledTwice(handleMessage);
+    Object.values(finishers).forEach((finish) => finish());
+  });
+
+  it("requires at least one queue", () => {
+    assert.throws(
+      () =>
+        new ConsumerGroup({
+          accountId: ACCOUNT_ID,
+          handleMessage: sinon.stub(),
+          queues: [],
+        }),
+      "queues must be an array with at least one queue.",
+    );
+  });
+
+  it("doesn't allow a queue to be in the group twice", () => {
+    assert.throws(
+      () =>
+        new ConsumerGroup({
+          accountId: ACCOUNT_ID,
+          handleMessage: sinon.stub(),
+          queues: [{ queueId: QUEUE_A }, { queueId: QUEUE_A }],
+        }),
+      "The queue queue-a is in the group twice.",
+    );
+  });
+
+  it("doesn't allow concurrency with a queue that uses handleMessageBatch", () => {
+    assert.throws(
+      () =>
+        new ConsumerGroup({
+          accountId: ACCOUNT_ID,
+          handleMessage: sinon.stub(),
+          concurrency: 2,
+          queues: [
+            { queueId: QUEUE_A },
+            { queueId: QUEUE_B, handleMessageBatch: sinon.stub() },
+          ],
+        }),
+      "concurrency can't be used with the queue queue-b because it uses handleMessageBatch.",
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, afterEach } from "node:test";
+import { assert } from "chai";
+import sinon from "sinon";
+
+import { CredentialsCache } from "../../../src/lib/credentials";
+
+describe("CredentialsCache", () => {
+  afterEach(() => {
+    delete process.env.QUEUES_API_TOKEN;
+  });
+
+  it("falls back to the QUEUES_API_TOKEN environment variable", async () => {
+    process.env.QUEUES_API_TOKEN = "env-token";
+    const credentials = new CredentialsCache();
+
+    assert.equal(await credentials.getToken(), "env-token");
+    assert.isFalse(credentials.isRefreshable);
+  });
+
+  it("rejects if there is no token in the environment", async () => {
+    const credentials = new CredentialsCache();
+
+    try {
+      await credentials.getToken();
+      assert.fail("Expected error to be thrown");
+    } catch (error) {
+      assert.equal(
+        error.message,
+        "Missing Cloudflare credentials, please set a QUEUES_API_TOKEN in the environment variables.",
+      );
+    }
+  });
+
+  it("returns a static token", async () => {
+    process.env.QUEUES_API_TOKEN = "env-token";
+    const credentials = new CredentialsCache("static-token");
+
+    assert.equal(await credentials.getToken(), "static-token");
+    assert.isFalse(credentials.isRefreshable);
+  });
+
+  it("caches the token from a provider until it is invalidated", async () => {
+    const provider = sinon.stub();
+    provider.onFirstCall().resolves("first-token");
+    provider.onSecondCall().resolves("second-token");
+    const credentials = new CredentialsCache(provider);
+
+    assert.equal(await credentials.getToken(), "first-token");
+    assert.equal(await credentials.getToken(), "first-token");
+    sinon.assert.calledOnce(provider);
+
+    credentials.invalidate();
+
+    assert.equal(await credentials.getToken(), "second-token");
+    sinon.assert.calledTwice(provider);
+    assert.isTrue(credentials.isRefreshable);
+  });
+
+  it("does not cache a failed provider call", async () => {
+    const provider = sinon.stub();
+    provider.onFirstCall().rejects(new Error("Secrets manager unavailable"));
+    provider.onSecondCall().resolves("token");
+    const credentials = new CredentialsCache(provider);
+
+    try {
+      await credentials.getToken();
+      assert.fail("Expected error to be thrown");
+    } catch (error) {
+      assert.equal(error.message, "Secrets manager unavailable");
+    }
+
+    assert.equal(await credentials.getToken(), "token");
+  });
+
+  it("rejects if the provider does not return a token", async () => {
+    const credentials = new CredentialsCache(async () => "");
+
+    try {
+      await credentials.getToken();
+      assert.fail("Expected error to be thrown");
+    } catch (error) {
+      assert.equal(
+        error.message,
+        "Missing Cloudflare credentials, the credentials provider did not return a token.",
+      );
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { assert } from "chai";
+import nock from "nock";
+
+import { createDeadLetterHandler } from "../../../src/lib/deadLetter";
+import { DecodeError } from "../../../src/utils/errors";
+import { getRateLimiter } from "../../../src/utils/rateLimiter";
+import type { Message } from "../../../src/types";
+
+const CLOUDFLARE_HOST = "https://api.cloudflare.com/client/v4";
+const ACCOUNT_ID = "test-account-id";
+const DEAD_LETTER_QUEUE_ID = "test-dead-letter-queue-id";
+const SEND_MESSAGE_ENDPOINT = `/accounts/${ACCOUNT_ID}/queues/${DEAD_LETTER_QUEUE_ID}/messages`;
+const QUEUES_API_TOKEN = "test-queues-api-token";
+
+const message: Message = {
+  body: { hello: "world" },
+  id: "123",
+  timestamp_ms: 1234567890,
+  attempts: 3,
+  lease_id: "lease-id",
+  metadata: {
+    "CF-sourceMessageSource": "test",
+    "CF-Content-Type": "json",
+  },
+};
+
+describe("createDeadLetterHandler", () => {
+  beforeEach(() => {
+    process.env.QUEUES_API_TOKEN = QUEUES_API_TOKEN;
+  });
+
+  afterEach(() => {
+    delete process.env.QUEUES_API_TOKEN;
+    nock.cleanAll();
+  });
+
+  it("uses a function sink as it is", () => {
+    async function sink() {}
+
+    assert.strictEqual(
+      createDeadLetterHandler(sink, { accountId: ACCOUNT_ID }),
+      sink,
+    );
+  });
+
+  it("sends messages to another queue with their content type", async () => {
+    let requestBody;
+    nock(CLOUDFLARE_HOST)
+      .post(SEND_MESSAGE_ENDPOINT, (body) => {
+        requestBody = body;
+        return true;
+      })
+      .reply(200, { errors: [], messages: [], result: null, success: true });
+
+    const deadLetter = createDeadLetterHandler(
+      { queueId: DEAD_LETTER_QUEUE_ID },
+      { accountId: ACCOUNT_ID },
+    );
+    await deadLetter(message, new Error("Handler failed"));
+
+    assert.deepEqual(requestBody, {
+      body: { hello: "world" },
+      content_type: "json",
+    });
+  });
+
+  it("sends messages that could not be decoded as text", async () => {
+    let requestBody;
+    nock(CLOUDFLARE_HOST)
+      .post(SEND_MESSAGE_ENDPOINT, (body) => {
+        requestBody = body;
+        return true;
+      })
+      .reply(200, { errors: [], messages: [], result: null, success: true });
+
+    const deadLetter = createDeadLetterHandler(
+      { queueId: DEAD_LETTER_QUEUE_ID },
+      { accountId: ACCOUNT_ID },
+    );
+    await deadLetter(
+      { ...message, body: "{not json" },
+      new DecodeError("Failed to decode the message body."),
+    );
+
+    assert.deepEqual(requestBody, { body: "{not json", content_type: "text" });
+  });
+
+  it("sends messages through the rate limiter of the account", async () => {
+    nock(CLOUDFLARE_HOST)
+      .post(SEND_MESSAGE_ENDPOINT)
+      .reply(200, { errors: [], messages: [], result: null, success: true });
+
+    const deadLetter = createDeadLetterHandler(
+      { queueId: DEAD_LETTER_QUEUE_ID },
+      { accountId: ACCOUNT_ID, rateLimit: { burst: 5 } },
+    );
+    await deadLetter(message, new Error("Handler failed"));
+
+    assert.equal(getRateLimiter(ACCOUNT_ID).state.tokens, 4);
+  });
+
+  it("appends messages to a file as JSON lines", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "dead-letter-"));
+    const file = join(directory, "dead-letters.jsonl");
+
+    try {
+      const deadLetter = createDeadLetterHandler(
+        { file },
+        { accountId: ACCOUNT_ID },
+      );
+      await deadLetter(message, new Error("First failure"));
+      await deadLetter({ ...message, id: "124" }, new Error("Second failure"));
+
+      const lines = (await readFile(file, "utf8")).trim().split("\n");
+
+      assert.lengthOf(lines, 2);
+      assert.deepEqual(JSON.parse(lines[0]).message, message);
+      assert.equal(JSON.parse(lines[0]).error, "First failure");
+      assert.equal(JSON.parse(lines[1]).message.id, "124");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import { serialize } from "node:v8";
+import { assert } from "chai";
+
+import { decodeBody, decodeMessage } from "../../../src/lib/decode";
+import type { Message, QueueContentType } from "../../../src/types";
+
+function createMessage(
+  body: string,
+  contentType: QueueContentType,
+): Message<string> {
+  return {
+    body,
+    id: "123",
+    timestamp_ms: 1234567890,
+    attempts: 1,
+    lease_id: "lease-id",
+    metadata: {
+      "CF-sourceMessageSource": "test",
+      "CF-Content-Type": contentType,
+    },
+  };
+}
+
+describe("decodeBody", () => {
+  it("parses json bodies", () => {
+    assert.deepEqual(decodeBody(createMessage('{"hello":"world"}', "json")), {
+      hello: "world",
+    });
+  });
+
+  it("leaves text bodies as they are", () => {
+    assert.equal(decodeBody(createMessage("hello", "text")), "hello");
+  });
+
+  it("decodes bytes bodies into a Buffer", () => {
+    const body = decodeBody(
+      createMessage(Buffer.from("hello").toString("base64"), "bytes"),
+    );
+
+    assert.instanceOf(body, Buffer);
+    assert.equal(body.toString(), "hello");
+  });
+
+  it("deserialises v8 bodies", () => {
+    const value = { date: new Date(0), list: [1, 2, 3] };
+    const encoded = serialize(value).toString("base64");
+
+    assert.deepEqual(decodeBody(createMessage(encoded, "v8")), value);
+  });
+});
+
+describe("decodeMessage", () => {
+  it("returns a copy of the message with the decoded body", async () => {
+    const message = createMessage('{"hello":"world"}', "json");
+    const decoded = await decodeMessage(message, decodeBody);
+
+    assert.deepEqual(decoded.body, { hello: "world" });
+    assert.equal(message.body, '{"hello":"world"}');
+  });
+
+  it("wraps decoder failures in a DecodeError", async () => {
+    try {
+      await decodeMessage(createMessage("{not json", "json"), decodeBody);
+      assert.fail("Expected decodeMessage to throw");
+    } catch (err) {
+      assert.equal(err.name, "DecodeError");
+      assert.instanceOf(err.cause, SyntaxError);
+    }
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { assert } from "chai";
+import { pEvent } from "p-event";
+
+import { QueuesEmulator } from "../../../src/lib/emulator";
+import { Consumer } from "../../../src/lib/consumer";
+import { Producer } from "../../../src/lib/producer";
+
+const ACCOUNT_ID = "test-account-id";
+const QUEUE_ID = "test-queue-id";
+const QUEUES_API_TOKEN = "test-queues-api-token";
+
+describe("QueuesEmulator", () => {
+  let emulator: QueuesEmulator;
+  let baseUrl: string;
+
+  async function request(path: string, body: Record<string, unknown>) {
+    const response = await fetch(
+      `${baseUrl}/accounts/${ACCOUNT_ID}/queues/${QUEUE_ID}/${path}`,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${QUEUES_API_TOKEN}`,
+        },
+        body: JSON.stringify(body),
+      },
+    );
+
+    return { status: response.status, data: await response.json() };
+  }
+
+  beforeEach(async () => {
+    emulator = new QueuesEmulator();
+    baseUrl = await emulator.start();
+  });
+
+  afterEach(async () => {
+    await emulator.stop();
+  });
+
+  it("delivers sent messages with a lease and an attempt count", async () => {
+    emulator.send(QUEUE_ID, { hello: "world" });
+
+    const { status, data } = await request("messages/pull", {
+      batch_size: 10,
+      visibility_timeout_ms: 1000,
+    });
+
+    assert.equal(status, 200);
+    assert.isTrue(data.success);
+    assert.lengthOf(data.result.messages, 1);
+    assert.equal(data.result.messages[0].body, '{"hello":"world"}');
+    assert.equal(data.result.messages[0].attempts, 1);
+    assert.equal(data.result.messages[0].metadata["CF-Content-Type"], "json");
+    assert.isString(data.result.messages[0].lease_id);
+  });
+
+  it("hides leased messages until the visibility timeout has passed", async () => {
+    emulator.send(QUEUE_ID, "hello");
+
+    await request("messages/pull", { visibility_timeout_ms: 50 });
+    const hidden = await request("messages/pull", {});
+
+    assert.lengthOf(hidden.data.result.messages, 0);
+
+    await sleep(60);
+    const redelivered = await request("messages/pull", {});
+
+    assert.lengthOf(redelivered.data.result.messages, 1);
+    assert.equal(redelivered.data.result.messages[0].attempts, 2);
+  });
+
+  it("removes acknowledged messages and delays retried ones", async () => {
+    emulator.send(QUEUE_ID, "ack me");
+    emulator.send(QUEUE_ID, "retry me");
+
+    const pulled = await request("messages/pull", { batch_size: 2 });
+    const [toAck, toRetry] = pulled.data.result.messages;
+
+    const acked = await request("messages/ack", {
+      acks: [{ lease_id: toAck.lease_id }],
+      retries: [{ lease_id: toRetry.lease_id, delay_seconds: 0.05 }],
+    });
+
+    assert.deepEqual(acked.data.result, {
+      ackCount: 1,
+      retryCount: 1,
+      warnings: [],
+    });
+    assert.lengthOf(emulator.getMessages(QUEUE_ID), 1);
+
+    const delayed = await request("messages/pull", {});
+    assert.lengthOf(delayed.data.result.messages, 0);
+
+    await sleep(60);
+    const retried = await request("messages/pull", {});
+    assert.equal(retried.data.result.messages[0].body, "retry me");
+  });
+
+  it("warns about leases that have expired", async () => {
+    emulator.send(QUEUE_ID, "hello");
+
+    const pulled = await request("messages/pull", {
+      visibility_timeout_ms: 10,
+    });
+    await sleep(20);
+
+    const acked = await request("messages/ack", {
+      acks: [{ lease_id: pulled.data.result.messages[0].lease_id }],
+    });
+
+    assert.equal(acked.data.result.ackCount, 0);
+    assert.lengthOf(acked.data.result.warnings, 1);
+  });
+
+  it("releases the lease of a retried message", async () => {
+    emulator.send(QUEUE_ID, "hello");
+
+    const pulled = await request("messages/pull", {
+      visibility_timeout_ms: 1000,
+    });
+    const leaseId = pulled.data.result.messages[0].lease_id;
+    await request("messages/ack", {
+      retries: [{ lease_id: leaseId, delay_seconds: 1 }],
+    });
+    const acked = await request("messages/ack", {
+      acks: [{ lease_id: leaseId }],
+    });
+
+    assert.equal(acked.data.result.ackCount, 0);
+    assert.lengthOf(acked.data.result.warnings, 1);
+  });
+
+  it("rejects requests with the wrong token when an apiToken is set", async () => {
+    await emulator.stop();
+    emulator = new QueuesEmulator({ apiToken: "another-token" });
+    baseUrl = await emulator.start();
+
+    const { status, data } = await request("messages/pull", {});
+
+    assert.equal(status, 401);
+    assert.isFalse(data.success);
+  });
+
+  it("responds with a 404 for unknown routes", async () => {
+    const { status } = await request("unknown", {});
+
+    assert.equal(status, 404);
+  });
+
+  it("works with a Producer and a Consumer", async () => {
+    const producer = new Producer({
+      accountId: ACCOUNT_ID,
+      queueId: QUEUE_ID,
+      credentials: QUEUES_API_TOKEN,
+      apiBaseUrl: baseUrl,
+    });
+    const consumer = new Consumer({
+      accountId: ACCOUNT_ID,
+      queueId: QUEUE_ID,
+      credentials: QUEUES_API_TOKEN,
+      apiBaseUrl: baseUrl,
+      handleMessage: async () => {},
+    });
+
+    await producer.sendBatch([{ body: "first" }, { body: { second: true } }]);
+
+    consumer.start();
+    await pEvent(consumer, "response_processed");
+    consumer.stop();
+
+    assert.lengthOf(emulator.getMessages(QUEUE_ID), 0);
+  });
+});
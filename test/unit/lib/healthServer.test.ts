@@ -0,0 +1,100 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import { connect } from "node:net";
+import { assert } from "chai";
+
+import { HealthServer } from "../../../src/lib/healthServer";
+import type { HealthReport } from "../../../src/types";
+
+function createReport(overrides: Partial<HealthReport> = {}): HealthReport {
+  return {
+    healthy: true,
+    ready: true,
+    reasons: [],
+    queueId: "queue-1",
+    isRunning: true,
+    consecutivePollErrors: 0,
+    consecutiveAckErrors: 0,
+    inFlightMessages: 0,
+    ...overrides,
+  };
+}
+
+describe("HealthServer", () => {
+  let reports: HealthReport[];
+  let server: HealthServer;
+  let baseUrl: string;
+
+  async function request(path: string) {
+    const response = await fetch(`${baseUrl}${path}`);
+
+    return { status: response.status, data: await response.json() };
+  }
+
+  beforeEach(async () => {
+    reports = [createReport(), createReport({ queueId: "queue-2" })];
+    server = new HealthServer(
+      reports.map((report) => ({ health: () => report })),
+      { host: "127.0.0.1" },
+    );
+    baseUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it("responds with a 200 and the reports while every consumer is healthy", async () => {
+    const { status, data } = await request("/healthz");
+
+    assert.equal(status, 200);
+    assert.isTrue(data.ok);
+    assert.deepEqual(
+      data.consumers.map((report) => report.queueId),
+      ["queue-1", "queue-2"],
+    );
+  });
+
+  it("responds with a 503 when a consumer is unhealthy", async () => {
+    reports[1].healthy = false;
+    reports[1].reasons = ["The consumer is not running."];
+
+    const { status, data } = await request("/healthz");
+
+    assert.equal(status, 503);
+    assert.isFalse(data.ok);
+    assert.deepEqual(data.consumers[1].reasons, [
+      "The consumer is not running.",
+    ]);
+  });
+
+  it("reports readiness separately from health", async () => {
+    reports[0].ready = false;
+
+    assert.equal((await request("/healthz")).status, 200);
+    assert.equal((await request("/readyz")).status, 503);
+  });
+
+  it("responds with a 404 for other paths", async () => {
+    const { status } = await request("/metrics");
+
+    assert.equal(status, 404);
+  });
+
+  it("responds with a 400 to a request with a malformed URL", async () => {
+    const { port } = new URL(baseUrl);
+    const response = await new Promise<string>((resolve, reject) => {
+      const socket = connect(Number(port), "127.0.0.1", () => {
+        socket.end("GET http://[ HTTP/1.1\r\nHost: localhost\r\n\r\n");
+      });
+      let data = "";
+      socket.on("data", (chunk) => {
+        data += chunk;
+      });
+      socket.on("end", () => resolve(data));
+      socket.on("error", reject);
+    });
+
+    assert.match(response, /^HTTP\/1\.1 400 /);
+    assert.equal((await request("/healthz")).status, 200);
+  });
+});
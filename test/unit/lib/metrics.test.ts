@@ -0,0 +1,134 @@
+import { describe, it } from "node:test";
+import { assert } from "chai";
+
+import {
+  MetricsCollector,
+  formatPrometheusMetrics,
+} from "../../../src/lib/metrics";
+import { RateLimiter } from "../../../src/utils/rateLimiter";
+
+describe("MetricsCollector", () => {
+  it("tracks counters and API errors in a snapshot", () => {
+    const metrics = new MetricsCollector("queue-1");
+
+    metrics.increment("polls");
+    metrics.increment("messagesReceived", 3);
+    metrics.recordApiError(500);
+    metrics.recordApiError(500);
+    metrics.recordApiError();
+
+    const snapshot = metrics.snapshot();
+
+    assert.deepEqual(snapshot.labels, { queue_id: "queue-1" });
+    assert.equal(snapshot.counters.polls, 1);
+    assert.equal(snapshot.counters.messagesReceived, 3);
+    assert.equal(snapshot.counters.emptyPolls, 0);
+    assert.deepEqual(snapshot.apiErrors, { "500": 2, network: 1 });
+  });
+
+  it("observes durations into cumulative buckets", () => {
+    const metrics = new MetricsCollector("queue-1", { buckets: [1, 0.1] });
+
+    metrics.observeHandlerDuration(50);
+    metrics.observeHandlerDuration(500);
+    metrics.observeHandlerDuration(5000);
+    metrics.observeApiLatency("pull", 20);
+
+    const { handlerDuration, apiLatency } = metrics.snapshot();
+
+    assert.deepEqual(handlerDuration, {
+      buckets: { "0.1": 1, "1": 2, "+Inf": 3 },
+      sum: 5.55,
+      count: 3,
+    });
+    assert.equal(apiLatency.pull.count, 1);
+    assert.isUndefined(apiLatency.ack);
+  });
+
+  it("applies the configured labels", () => {
+    const metrics = new MetricsCollector("queue-1", {
+      includeQueueId: false,
+      labels: { service: "orders" },
+    });
+
+    assert.deepEqual(metrics.snapshot().labels, { service: "orders" });
+  });
+
+  it("formats the metrics in the Prometheus text format", () => {
+    const metrics = new MetricsCollector("queue-1", { buckets: [0.1] });
+
+    metrics.increment("messagesAcknowledged", 2);
+    metrics.recordApiError(503);
+    metrics.observeApiLatency("ack", 50);
+
+    const lines = metrics.toPrometheus().split("\n");
+
+    assert.include(
+      lines,
+      "# TYPE cloudflare_queue_consumer_messages_acknowledged_total counter",
+    );
+    assert.include(
+      lines,
+      'cloudflare_queue_consumer_messages_acknowledged_total{queue_id="queue-1"} 2',
+    );
+    assert.include(
+      lines,
+      'cloudflare_queue_consumer_api_errors_total{queue_id="queue-1",status="503"} 1',
+    );
+    assert.include(
+      lines,
+      'cloudflare_queue_consumer_api_request_duration_seconds_bucket{queue_id="queue-1",operation="ack",le="0.1"} 1',
+    );
+    assert.include(
+      lines,
+      'cloudflare_queue_consumer_handler_duration_seconds_count{queue_id="queue-1"} 0',
+    );
+  });
+
+  it("formats the metrics of several collectors with one set of metadata", () => {
+    const text = formatPrometheusMetrics([
+      new MetricsCollector("queue-1"),
+      new MetricsCollector("queue-2", { labels: { note: 'a "quoted" value' } }),
+    ]);
+    const lines = text.split("\n");
+
+    assert.lengthOf(
+      lines.filter(
+        (line) =>
+          line === "# TYPE cloudflare_queue_consumer_polls_total counter",
+      ),
+      1,
+    );
+    assert.include(
+      lines,
+      'cloudflare_queue_consumer_polls_total{queue_id="queue-1"} 0',
+    );
+    assert.include(
+      lines,
+      'cloudflare_queue_consumer_polls_total{queue_id="queue-2",note="a \\"quoted\\" value"} 0',
+    );
+  });
+
+  it("reports the state of the rate limiter of the account", () => {
+    const metrics = new MetricsCollector(
+      "queue-1",
+      {},
+      new RateLimiter("account", { burst: 5 }),
+    );
+    const lines = metrics.toPrometheus().split("\n");
+
+    assert.equal(metrics.snapshot().rateLimiter.tokens, 5);
+    assert.include(
+      lines,
+      'cloudflare_queue_consumer_rate_limiter_tokens{queue_id="queue-1"} 5',
+    );
+    assert.include(
+      lines,
+      'cloudflare_queue_consumer_rate_limiter_waiting_requests{queue_id="queue-1",priority="low"} 0',
+    );
+    assert.notInclude(
+      new MetricsCollector("queue-2").toPrometheus(),
+      "rate_limiter",
+    );
+  });
+});
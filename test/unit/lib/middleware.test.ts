@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import { assert } from "chai";
+import * as sinon from "sinon";
+
+import {
+  createMiddlewareContext,
+  isBatchResult,
+  runMiddleware,
+} from "../../../src/lib/middleware";
+import type { Message } from "../../../src/types";
+
+const message: Message = {
+  id: "123",
+  lease_id: "lease-id",
+  attempts: 1,
+  body: "body",
+  metadata: { "CF-sourceMessageSource": "test", "CF-Content-Type": "text" },
+  timestamp_ms: 0,
+};
+
+describe("middleware", () => {
+  describe("createMiddlewareContext", () => {
+    it("sets the result to acknowledge every message", () => {
+      const ctx = createMiddlewareContext("queue", [message], false);
+
+      ctx.ack();
+
+      assert.strictEqual(ctx.message, message);
+      assert.deepEqual(ctx.result, { ack: [message] });
+    });
+
+    it("sets the result to retry every message", () => {
+      const ctx = createMiddlewareContext("queue", [message, message], true);
+
+      ctx.retry();
+      assert.deepEqual(ctx.result, { retry: [message, message] });
+
+      ctx.retry(5);
+      assert.deepEqual(ctx.result, {
+        retry: [
+          { message, delaySeconds: 5 },
+          { message, delaySeconds: 5 },
+        ],
+      });
+      assert.isUndefined(ctx.message);
+    });
+  });
+
+  describe("runMiddleware", () => {
+    it("doesn't call the handler when a middleware doesn't call next", async () => {
+      const ctx = createMiddlewareContext("queue", [message], false);
+      const handler = sinon.stub().resolves();
+      const last = sinon.stub();
+
+      await runMiddleware([(c) => c.ack(), last], ctx, handler);
+
+      sinon.assert.notCalled(handler);
+      sinon.assert.notCalled(last);
+      assert.deepEqual(ctx.result, { ack: [message] });
+    });
+
+    it("retries the messages when a middleware skips the handler without a result", async () => {
+      const ctx = createMiddlewareContext("queue", [message], false);
+      const handler = sinon.stub().resolves();
+
+      await runMiddleware([() => {}], ctx, handler);
+
+      sinon.assert.notCalled(handler);
+      assert.deepEqual(ctx.result, { retry: [message] });
+    });
+
+    it("rejects when next is called more than once", async () => {
+      const ctx = createMiddlewareContext("queue", [message], false);
+
+      const err = await runMiddleware(
+        [
+          async (_, next) => {
+            await next();
+            await next();
+          },
+        ],
+        ctx,
+        sinon.stub().resolves(),
+      ).catch((e) => e);
+
+      assert.equal(
+        err.message,
+        "next() was called more than once by a middleware.",
+      );
+    });
+  });
+
+  describe("isBatchResult", () => {
+    it("tells a batch result apart from messages", () => {
+      assert.isTrue(isBatchResult({ ack: [message] }));
+      assert.isFalse(isBatchResult(message));
+      assert.isFalse(isBatchResult([message]));
+      assert.isFalse(isBatchResult(undefined));
+    });
+  });
+});
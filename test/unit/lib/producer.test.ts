@@ -0,0 +1,155 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import { assert } from "chai";
+import nock from "nock";
+
+import { Producer } from "../../../src/lib/producer";
+import { ProviderError } from "../../../src/utils/errors";
+
+const CLOUDFLARE_HOST = "https://api.cloudflare.com/client/v4";
+const ACCOUNT_ID = "test-account-id";
+const QUEUE_ID = "test-queue-id";
+const QUEUES_API_TOKEN = "test-queues-api-token";
+const SEND_MESSAGE_ENDPOINT = `/accounts/${ACCOUNT_ID}/queues/${QUEUE_ID}/messages`;
+const SEND_MESSAGE_BATCH_ENDPOINT = `/accounts/${ACCOUNT_ID}/queues/${QUEUE_ID}/messages/batch`;
+
+const sendMessageResponse = {
+  errors: [],
+  messages: [],
+  result: null,
+  success: true,
+};
+
+describe("Producer", () => {
+  let producer: Producer;
+
+  beforeEach(() => {
+    process.env.QUEUES_API_TOKEN = QUEUES_API_TOKEN;
+    producer = new Producer({ accountId: ACCOUNT_ID, queueId: QUEUE_ID });
+  });
+
+  afterEach(() => {
+    delete process.env.QUEUES_API_TOKEN;
+    nock.cleanAll();
+  });
+
+  it("requires an accountId and queueId to be set", () => {
+    assert.throws(
+      // @ts-expect-error
+      () => new Producer({ queueId: QUEUE_ID }),
+      "Missing producer option [ accountId ].",
+    );
+    assert.throws(
+      // @ts-expect-error
+      () => new Producer({ accountId: ACCOUNT_ID }),
+      "Missing producer option [ queueId ].",
+    );
+  });
+
+  describe(".send", () => {
+    it("sends a string body as text", async () => {
+      let requestBody;
+      nock(CLOUDFLARE_HOST)
+        .post(SEND_MESSAGE_ENDPOINT, (body) => {
+          requestBody = body;
+          return true;
+        })
+        .reply(200, sendMessageResponse);
+
+      const result = await producer.send("hello");
+
+      assert.deepEqual(result, sendMessageResponse);
+      assert.deepEqual(requestBody, { body: "hello", content_type: "text" });
+    });
+
+    it("sends objects as json with a delay", async () => {
+      let requestBody;
+      nock(CLOUDFLARE_HOST)
+        .post(SEND_MESSAGE_ENDPOINT, (body) => {
+          requestBody = body;
+          return true;
+        })
+        .reply(200, sendMessageResponse);
+
+      await producer.send({ hello: "world" }, { delaySeconds: 30 });
+
+      assert.deepEqual(requestBody, {
+        body: { hello: "world" },
+        content_type: "json",
+        delay_seconds: 30,
+      });
+    });
+
+    it("sends binary bodies as base64 encoded bytes", async () => {
+      let requestBody;
+      nock(CLOUDFLARE_HOST)
+        .post(SEND_MESSAGE_ENDPOINT, (body) => {
+          requestBody = body;
+          return true;
+        })
+        .reply(200, sendMessageResponse);
+
+      await producer.send(Buffer.from("hello"));
+
+      assert.deepEqual(requestBody, {
+        body: Buffer.from("hello").toString("base64"),
+        content_type: "bytes",
+      });
+    });
+
+    it("rejects a delay that is longer than Cloudflare allows", async () => {
+      try {
+        await producer.send("hello", { delaySeconds: 42301 });
+        assert.fail("Expected error to be thrown");
+      } catch (error) {
+        assert.equal(error.message, "delaySeconds must be between 0 and 42300");
+      }
+    });
+
+    it("throws a ProviderError when the message is not sent", async () => {
+      nock(CLOUDFLARE_HOST)
+        .post(SEND_MESSAGE_ENDPOINT)
+        .reply(200, { ...sendMessageResponse, success: false });
+
+      try {
+        await producer.send("hello");
+        assert.fail("Expected error to be thrown");
+      } catch (error) {
+        assert.instanceOf(error, ProviderError);
+        assert.equal(
+          error.message,
+          "Send message failed: Message could not be sent.",
+        );
+      }
+    });
+  });
+
+  describe(".sendBatch", () => {
+    it("sends every message in a single request", async () => {
+      let requestBody;
+      nock(CLOUDFLARE_HOST)
+        .post(SEND_MESSAGE_BATCH_ENDPOINT, (body) => {
+          requestBody = body;
+          return true;
+        })
+        .reply(200, sendMessageResponse);
+
+      await producer.sendBatch(
+        [
+          { body: "first" },
+          { body: { second: true }, delaySeconds: 10 },
+          { body: "third", contentType: "json" },
+        ],
+        { delaySeconds: 5 },
+      );
+
+      assert.deepEqual(requestBody, {
+        messages: [
+          { body: "first", content_type: "text" },
+          { body: { second: true }, content_type: "json", delay_seconds: 10 },
+          { body: "third", content_type: "json" },
+        ],
+        delay_seconds: 5,
+      });
+    });
+  });
+});
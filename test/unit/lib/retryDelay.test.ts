@@ -0,0 +1,70 @@
+import { describe, it, afterEach } from "node:test";
+import { assert } from "chai";
+import sinon from "sinon";
+
+import {
+  capRetryDelay,
+  decorrelatedJitterRetryDelay,
+  exponentialRetryDelay,
+  linearRetryDelay,
+} from "../../../src/lib/retryDelay";
+import type { Message } from "../../../src/types";
+
+function createMessage(attempts: number): Message {
+  return {
+    body: "body",
+    id: "123",
+    timestamp_ms: 1234567890,
+    attempts,
+    lease_id: "lease-id",
+    metadata: {
+      "CF-sourceMessageSource": "test",
+      "CF-Content-Type": "text",
+    },
+  };
+}
+
+describe("Retry delay strategies", () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it("caps delays at the Cloudflare maximum", () => {
+    assert.equal(capRetryDelay(50000), 42300);
+    assert.equal(capRetryDelay(50000, 60000), 42300);
+    assert.equal(capRetryDelay(-1), 0);
+    assert.equal(capRetryDelay(12.4), 12);
+  });
+
+  it("doubles the delay with every attempt", () => {
+    const strategy = exponentialRetryDelay({ baseSeconds: 5 });
+
+    assert.deepEqual(
+      [1, 2, 3, 4].map((attempts) => strategy(createMessage(attempts))),
+      [5, 10, 20, 40],
+    );
+    assert.equal(strategy(createMessage(30)), 42300);
+  });
+
+  it("increases the delay by the base with every attempt", () => {
+    const strategy = linearRetryDelay({ baseSeconds: 5, maxSeconds: 12 });
+
+    assert.deepEqual(
+      [1, 2, 3].map((attempts) => strategy(createMessage(attempts))),
+      [5, 10, 12],
+    );
+  });
+
+  it("picks a random delay between the base and three times the previous delay", () => {
+    const strategy = decorrelatedJitterRetryDelay({ baseSeconds: 10 });
+
+    sinon.stub(Math, "random").returns(0);
+    assert.equal(strategy(createMessage(3)), 10);
+
+    sinon.restore();
+    sinon.stub(Math, "random").returns(1);
+    assert.equal(strategy(createMessage(1)), 30);
+    assert.equal(strategy(createMessage(3)), 270);
+    assert.equal(strategy(createMessage(20)), 42300);
+  });
+});
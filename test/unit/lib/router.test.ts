@@ -0,0 +1,151 @@
+import { describe, it } from "node:test";
+import { assert } from "chai";
+import * as sinon from "sinon";
+
+import { Router } from "../../../src/lib/router";
+import type { Message } from "../../../src/types";
+
+type Body = { type?: string; id?: number };
+
+function createMessage(body: Body | string, id = "123"): Message<Body> {
+  return {
+    id,
+    lease_id: `lease-${id}`,
+    attempts: 1,
+    body: body as Body,
+    metadata: {
+      "CF-sourceMessageSource": "worker",
+      "CF-Content-Type": "json",
+    },
+    timestamp_ms: 0,
+  };
+}
+
+describe("Router", () => {
+  it("dispatches messages to the handler for their body property", async () => {
+    const created = sinon.stub().resolves();
+    const deleted = sinon.stub().resolves();
+    const router = new Router<Body>({ discriminator: "type" })
+      .route("created", created)
+      .route("deleted", deleted);
+    const message = createMessage({ type: "deleted" });
+
+    await router.handleMessage(message);
+
+    sinon.assert.notCalled(created);
+    sinon.assert.calledOnceWithExactly(deleted, message);
+  });
+
+  it("dispatches messages with a discriminator function", async () => {
+    const fromWorker = sinon.stub().resolves();
+    const { handleMessage } = new Router<Body>({
+      discriminator: (message) => message.metadata["CF-sourceMessageSource"],
+    }).route("worker", fromWorker);
+
+    await handleMessage(createMessage("text"));
+
+    sinon.assert.calledOnce(fromWorker);
+  });
+
+  it("retries messages of an unknown type by default", async () => {
+    const router = new Router<Body>({ discriminator: "type" });
+    const message = createMessage({ type: "unknown" });
+
+    assert.deepEqual(await router.handleMessage(message), {
+      retry: [message],
+    });
+    assert.deepEqual(await router.handleMessage(createMessage("text")), {
+      retry: [createMessage("text")],
+    });
+  });
+
+  it("applies the fallback to messages of an unknown type", async () => {
+    const message = createMessage({ type: "unknown" });
+    const fallback = sinon.stub().resolves();
+
+    assert.deepEqual(
+      await new Router<Body>({
+        discriminator: "type",
+        fallback: "ack",
+      }).handleMessage(message),
+      { ack: [message] },
+    );
+    assert.deepEqual(
+      await new Router<Body>({
+        discriminator: "type",
+        fallback: "deadLetter",
+      }).handleMessage(message),
+      { deadLetter: [message] },
+    );
+
+    await new Router<Body>({ discriminator: "type", fallback }).handleMessage(
+      message,
+    );
+    sinon.assert.calledOnceWithExactly(fallback, message);
+  });
+
+  it("combines the outcome of each message in a batch", async () => {
+    const onError = sinon.stub();
+    const error = new Error("Handler failed");
+    const router = new Router<Body>({ discriminator: "type", onError })
+      .route("created", sinon.stub().resolves())
+      .route("updated", async (message) => ({ retry: [message] }))
+      .route("deleted", sinon.stub().rejects(error));
+    const created = createMessage({ type: "created" }, "1");
+    const updated = createMessage({ type: "updated" }, "2");
+    const deleted = createMessage({ type: "deleted" }, "3");
+    const unknown = createMessage({ type: "unknown" }, "4");
+
+    const result = await router.handleMessageBatch([
+      created,
+      updated,
+      deleted,
+      unknown,
+    ]);
+
+    assert.deepEqual(result.ack, [created]);
+    assert.sameMembers(result.retry, [updated, unknown]);
+    assert.isEmpty(result.deadLetter);
+    sinon.assert.calledOnceWithExactly(onError, error, deleted);
+  });
+
+  it("retries messages whose handler fails when there is no onError", async () => {
+    const router = new Router<Body>({ discriminator: "type" })
+      .route("created", sinon.stub().resolves())
+      .route("deleted", sinon.stub().rejects(new Error("Handler failed")));
+    const created = createMessage({ type: "created" }, "1");
+    const deleted = createMessage({ type: "deleted" }, "2");
+
+    const result = await router.handleMessageBatch([created, deleted]);
+
+    assert.deepEqual(result.ack, [created]);
+    assert.deepEqual(result.retry, [deleted]);
+  });
+
+  it("doesn't allow a type to have two handlers", () => {
+    const router = new Router<Body>({ discriminator: "type" }).route(
+      "created",
+      sinon.stub(),
+    );
+
+    assert.throws(
+      () => router.route("created", sinon.stub()),
+      "The type created already has a handler.",
+    );
+  });
+
+  it("requires a discriminator and a valid fallback", () => {
+    assert.throws(
+      () => new Router({ discriminator: undefined }),
+      "discriminator must be the name of a body property or a function.",
+    );
+    assert.throws(
+      () =>
+        new Router({
+          discriminator: "type",
+          fallback: "drop" as "ack",
+        }),
+      "fallback must be one of ack, retry or deadLetter, or a function.",
+    );
+  });
+});
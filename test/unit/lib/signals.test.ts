@@ -0,0 +1,139 @@
+import { describe, it, afterEach, beforeEach } from "node:test";
+import { assert } from "chai";
+import * as sinon from "sinon";
+
+import { attachToProcess, detachFromProcess } from "../../../src/lib/signals";
+
+function createConsumer() {
+  return {
+    stop: sinon.stub().resolves(),
+    emit: sinon.stub().returns(true),
+  };
+}
+
+describe("attachToProcess", () => {
+  const consumers: ReturnType<typeof createConsumer>[] = [];
+  const initialListeners = {
+    SIGTERM: process.listenerCount("SIGTERM"),
+    SIGINT: process.listenerCount("SIGINT"),
+  };
+
+  function attach(options?: Parameters<typeof attachToProcess>[1]) {
+    const consumer = createConsumer();
+    consumers.push(consumer);
+    attachToProcess(consumer, options);
+    return consumer;
+  }
+
+  let kill: sinon.SinonStub;
+
+  beforeEach(() => {
+    kill = sinon.stub(process, "kill");
+  });
+
+  function settle() {
+    return new Promise((resolve) => setImmediate(resolve));
+  }
+
+  afterEach(async () => {
+    consumers.splice(0).forEach((consumer) => detachFromProcess(consumer));
+    await settle();
+    kill.restore();
+  });
+
+  it("adds one listener per signal for every consumer in the process", () => {
+    attach();
+    attach();
+
+    assert.equal(
+      process.listenerCount("SIGTERM"),
+      initialListeners.SIGTERM + 1,
+    );
+    assert.equal(process.listenerCount("SIGINT"), initialListeners.SIGINT + 1);
+  });
+
+  it("drains every consumer on the first signal", () => {
+    const first = attach({ timeoutMs: 5000 });
+    const second = attach();
+
+    process.emit("SIGTERM");
+
+    sinon.assert.calledOnceWithExactly(first.stop, {
+      waitForInFlight: true,
+      timeoutMs: 5000,
+    });
+    sinon.assert.calledOnceWithExactly(second.stop, {
+      waitForInFlight: true,
+      timeoutMs: undefined,
+    });
+    sinon.assert.calledWith(first.emit, "signal_received", "SIGTERM");
+  });
+
+  it("aborts the consumer on the second signal", () => {
+    const consumer = attach();
+    consumer.stop.returns(new Promise(() => {}));
+
+    process.emit("SIGTERM");
+    process.emit("SIGINT");
+
+    sinon.assert.calledTwice(consumer.stop);
+    sinon.assert.calledWithExactly(consumer.stop.secondCall, { abort: true });
+  });
+
+  it("only stops consumers that are listening for the signal", () => {
+    const consumer = attach({ signals: ["SIGUSR2"] });
+
+    process.emit("SIGTERM");
+
+    sinon.assert.notCalled(consumer.stop);
+    assert.equal(process.listenerCount("SIGTERM"), initialListeners.SIGTERM);
+  });
+
+  it("removes the listeners once the consumer has stopped", async () => {
+    const consumer = attach();
+
+    process.emit("SIGTERM");
+    await consumer.stop.firstCall.returnValue;
+    await Promise.resolve();
+
+    assert.equal(process.listenerCount("SIGTERM"), initialListeners.SIGTERM);
+    assert.equal(process.listenerCount("SIGINT"), initialListeners.SIGINT);
+  });
+
+  it("sends the signal again once every consumer has stopped", async () => {
+    attach();
+    attach();
+
+    process.emit("SIGTERM");
+    await settle();
+
+    sinon.assert.calledOnceWithExactly(kill, process.pid, "SIGTERM");
+  });
+
+  it("leaves the application to exit when it listens for the signal", async () => {
+    function listener() {}
+    process.on("SIGTERM", listener);
+
+    try {
+      attach();
+
+      process.emit("SIGTERM");
+      await settle();
+
+      sinon.assert.notCalled(kill);
+    } finally {
+      process.off("SIGTERM", listener);
+    }
+  });
+
+  it("detaches a consumer that fails to stop", async () => {
+    const consumer = attach();
+    consumer.stop.rejects(new Error("Failed to stop"));
+
+    process.emit("SIGTERM");
+    await settle();
+
+    assert.equal(process.listenerCount("SIGTERM"), initialListeners.SIGTERM);
+    sinon.assert.calledOnceWithExactly(kill, process.pid, "SIGTERM");
+  });
+});
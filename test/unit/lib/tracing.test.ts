@@ -0,0 +1,132 @@
+import { describe, it } from "node:test";
+import { assert } from "chai";
+import * as sinon from "sinon";
+
+import {
+  extractSpanContext,
+  parseTraceparent,
+  withSpan,
+} from "../../../src/lib/tracing";
+
+const TRACEPARENT = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+const PRODUCER_CONTEXT = {
+  traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+  spanId: "00f067aa0ba902b7",
+  traceFlags: 1,
+  isRemote: true,
+};
+
+function createTracer() {
+  const span = {
+    spanContext: sinon.stub().returns({
+      traceId: "a".repeat(32),
+      spanId: "b".repeat(16),
+      traceFlags: 1,
+    }),
+    setAttribute: sinon.stub(),
+    setStatus: sinon.stub(),
+    recordException: sinon.stub(),
+    end: sinon.stub(),
+  };
+
+  return { span, tracer: { startSpan: sinon.stub().returns(span) } };
+}
+
+describe("parseTraceparent", () => {
+  it("parses a valid traceparent", () => {
+    assert.deepEqual(parseTraceparent(TRACEPARENT), PRODUCER_CONTEXT);
+  });
+
+  it("ignores values that aren't a valid traceparent", () => {
+    assert.isUndefined(parseTraceparent(undefined));
+    assert.isUndefined(parseTraceparent("not-a-traceparent"));
+    assert.isUndefined(
+      parseTraceparent(
+        "00-00000000000000000000000000000000-00f067aa0ba902b7-01",
+      ),
+    );
+    assert.isUndefined(
+      parseTraceparent(
+        "ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      ),
+    );
+  });
+});
+
+describe("extractSpanContext", () => {
+  it("reads the traceparent from the message body", () => {
+    // @ts-expect-error
+    const context = extractSpanContext({ body: { traceparent: TRACEPARENT } });
+
+    assert.deepEqual(context, PRODUCER_CONTEXT);
+  });
+
+  it("returns undefined for bodies that aren't objects", () => {
+    // @ts-expect-error
+    assert.isUndefined(extractSpanContext({ body: TRACEPARENT }));
+  });
+});
+
+describe("withSpan", () => {
+  it("runs the function without a span when tracing isn't set", async () => {
+    const fn = sinon.stub().resolves("result");
+
+    assert.equal(
+      await withSpan(undefined, "span", {}, undefined, fn),
+      "result",
+    );
+    sinon.assert.calledOnceWithExactly(fn);
+  });
+
+  it("starts the span with a context for its parent", async () => {
+    const { span, tracer } = createTracer();
+    const setSpanContext = sinon.stub().returns("parent-context");
+
+    await withSpan(
+      { tracer, setSpanContext },
+      "span",
+      { kind: 4 },
+      PRODUCER_CONTEXT,
+      async () => {},
+    );
+
+    sinon.assert.calledOnceWithExactly(setSpanContext, PRODUCER_CONTEXT);
+    sinon.assert.calledOnceWithExactly(
+      tracer.startSpan,
+      "span",
+      { kind: 4 },
+      "parent-context",
+    );
+    sinon.assert.calledOnce(span.end);
+  });
+
+  it("links to the parent when contexts can't be created", async () => {
+    const { span, tracer } = createTracer();
+
+    await withSpan({ tracer }, "span", {}, span, async () => {});
+
+    sinon.assert.calledOnceWithExactly(
+      tracer.startSpan,
+      "span",
+      { links: [{ context: span.spanContext() }] },
+      undefined,
+    );
+  });
+
+  it("records errors on the span", async () => {
+    const { span, tracer } = createTracer();
+    const error = new Error("Handler failed");
+
+    const err = await withSpan({ tracer }, "span", {}, undefined, () =>
+      Promise.reject(error),
+    ).catch((e) => e);
+
+    assert.equal(err, error);
+    sinon.assert.calledOnceWithExactly(span.recordException, error);
+    sinon.assert.calledOnceWithExactly(span.setStatus, {
+      code: 2,
+      message: "Handler failed",
+    });
+    sinon.assert.calledOnce(span.end);
+  });
+});
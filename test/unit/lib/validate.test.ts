@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import { assert } from "chai";
+
+import { validateMessage } from "../../../src/lib/validate";
+import type { Message, StandardSchema } from "../../../src/types";
+
+const message: Message<{ count: unknown }> = {
+  body: { count: "1" },
+  id: "123",
+  timestamp_ms: 1234567890,
+  attempts: 1,
+  lease_id: "lease-id",
+  metadata: {
+    "CF-sourceMessageSource": "test",
+    "CF-Content-Type": "json",
+  },
+};
+
+const countSchema: StandardSchema<{ count: number }> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value: { count: unknown }) => {
+      const count = Number(value?.count);
+
+      return Number.isNaN(count)
+        ? { issues: [{ message: "count must be a number", path: ["count"] }] }
+        : { value: { count } };
+    },
+  },
+};
+
+describe("validateMessage", () => {
+  it("returns the message when the predicate returns true", async () => {
+    const validated = await validateMessage(message, async () => true);
+
+    assert.strictEqual(validated, message);
+  });
+
+  it("throws a ValidationError when the predicate returns false", async () => {
+    try {
+      await validateMessage(message, () => false);
+      assert.fail("Expected validateMessage to throw");
+    } catch (err) {
+      assert.equal(err.name, "ValidationError");
+      assert.deepEqual(err.issues, [
+        { message: "The message was rejected by the validate function." },
+      ]);
+    }
+  });
+
+  it("throws a ValidationError when the predicate throws", async () => {
+    try {
+      await validateMessage(message, () => {
+        throw new Error("Invalid body");
+      });
+      assert.fail("Expected validateMessage to throw");
+    } catch (err) {
+      assert.equal(err.name, "ValidationError");
+      assert.equal(err.message, "The message failed validation: Invalid body");
+      assert.equal(err.cause.message, "Invalid body");
+    }
+  });
+
+  it("uses the output of a standard schema as the body", async () => {
+    const validated = await validateMessage(message, countSchema);
+
+    assert.deepEqual(validated.body, { count: 1 });
+    assert.equal(validated.id, message.id);
+  });
+
+  it("throws a ValidationError with the issues from a standard schema", async () => {
+    try {
+      await validateMessage(
+        { ...message, body: { count: "one" } },
+        countSchema,
+      );
+      assert.fail("Expected validateMessage to throw");
+    } catch (err) {
+      assert.equal(err.name, "ValidationError");
+      assert.equal(
+        err.message,
+        "The message failed validation: count must be a number",
+      );
+      assert.deepEqual(err.issues, [
+        { message: "count must be a number", path: ["count"] },
+      ]);
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { assert } from "chai";
+import * as sinon from "sinon";
+
+import { CircuitBreaker } from "../../../src/utils/circuitBreaker";
+import { CircuitOpenError, ProviderError } from "../../../src/utils/errors";
+
+function providerError(status?: number): ProviderError {
+  const error = new ProviderError("Request failed");
+  error.status = status;
+  return error;
+}
+
+describe("CircuitBreaker", () => {
+  let clock: sinon.SinonFakeTimers;
+  let onStateChange: sinon.SinonStub;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+    onStateChange = sinon.stub();
+    breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 1000,
+      onStateChange,
+    });
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  async function fail(error: Error, canProbe?: boolean): Promise<Error> {
+    try {
+      await breaker.execute(() => Promise.reject(error), canProbe);
+    } catch (err) {
+      return err;
+    }
+  }
+
+  it("opens after consecutive failures and fails fast", async () => {
+    const error = providerError(503);
+    const request = sinon.stub().resolves("ok");
+
+    await fail(error);
+    assert.equal(breaker.state, "closed");
+    await fail(error);
+
+    assert.equal(breaker.state, "open");
+    sinon.assert.calledOnceWithExactly(onStateChange, "open", error);
+
+    const err = await breaker.execute(request).catch((e) => e);
+
+    assert.instanceOf(err, CircuitOpenError);
+    sinon.assert.notCalled(request);
+    assert.equal(breaker.remainingOpenMs, 1000);
+  });
+
+  it("resets the count after a success", async () => {
+    await fail(providerError(500));
+    await breaker.execute(() => Promise.resolve());
+    await fail(providerError(500));
+
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("doesn't count errors that aren't caused by the API", async () => {
+    await fail(providerError(400));
+    await fail(providerError(401));
+    await fail(new Error("Handler error"));
+
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("counts network errors and rate limiting", async () => {
+    await fail(providerError());
+    await fail(providerError(429));
+
+    assert.equal(breaker.state, "open");
+  });
+
+  it("closes when the probe succeeds", async () => {
+    await fail(providerError(500));
+    await fail(providerError(500));
+    clock.tick(1000);
+
+    const result = await breaker.execute(() => Promise.resolve("ok"));
+
+    assert.equal(result, "ok");
+    assert.equal(breaker.state, "closed");
+    assert.deepEqual(
+      onStateChange.getCalls().map((call) => call.args[0]),
+      ["open", "half_open", "closed"],
+    );
+  });
+
+  it("opens again when the probe fails", async () => {
+    await fail(providerError(500));
+    await fail(providerError(500));
+    clock.tick(1000);
+    await fail(providerError(500));
+
+    assert.equal(breaker.state, "open");
+    assert.equal(breaker.remainingOpenMs, 1000);
+  });
+
+  it("only lets one probe through at a time", async () => {
+    await fail(providerError(500));
+    await fail(providerError(500));
+    clock.tick(1000);
+
+    let finishProbe: () => void;
+    const probe = breaker.execute(
+      () =>
+        new Promise<void>((resolve) => {
+          finishProbe = resolve;
+        }),
+    );
+    const err = await fail(providerError(500));
+
+    assert.instanceOf(err, CircuitOpenError);
+    assert.equal(breaker.state, "half_open");
+
+    finishProbe();
+    await probe;
+
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("doesn't probe with requests that can't be used as a probe", async () => {
+    await fail(providerError(500));
+    await fail(providerError(500));
+    clock.tick(1000);
+
+    const err = await fail(providerError(500), false);
+
+    assert.instanceOf(err, CircuitOpenError);
+    assert.equal(breaker.state, "open");
+  });
+});
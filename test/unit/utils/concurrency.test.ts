@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import { assert } from "chai";
+
+import { ConcurrencyLimiter } from "../../../src/utils/concurrency";
+
+describe("ConcurrencyLimiter", () => {
+  it("runs tasks up to the limit and queues the rest", async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const started: number[] = [];
+    const finishers: (() => void)[] = [];
+
+    const tasks = [1, 2, 3].map((id) =>
+      limiter.run(
+        () =>
+          new Promise<void>((resolve) => {
+            started.push(id);
+            finishers.push(resolve);
+          }),
+      ),
+    );
+
+    await Promise.resolve();
+    assert.deepEqual(started, [1, 2]);
+    assert.equal(limiter.activeCount, 2);
+    assert.equal(limiter.available, 0);
+
+    finishers[0]();
+    await tasks[0];
+    await Promise.resolve();
+
+    assert.deepEqual(started, [1, 2, 3]);
+
+    finishers[1]();
+    finishers[2]();
+    await Promise.all(tasks);
+
+    assert.equal(limiter.activeCount, 0);
+    assert.equal(limiter.available, 2);
+  });
+
+  it("releases the slot when a task fails", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    try {
+      await limiter.run(async () => {
+        throw new Error("Task failed");
+      });
+    } catch (err) {
+      assert.equal(err.message, "Task failed");
+    }
+
+    assert.equal(limiter.available, 1);
+  });
+
+  it("waits for a slot to become available without taking it", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    let available = false;
+
+    await limiter.acquire();
+    const waiting = limiter.waitForAvailability().then(() => {
+      available = true;
+    });
+
+    await Promise.resolve();
+    assert.isFalse(available);
+
+    limiter.release();
+    await waiting;
+
+    assert.isTrue(available);
+    assert.equal(limiter.available, 1);
+  });
+});
@@ -8,6 +8,7 @@ import {
   toStandardError,
   TimeoutError,
   toTimeoutError,
+  isFatalError,
 } from "../../../src/utils/errors";
 
 describe("Errors", () => {
@@ -115,4 +116,23 @@ describe("Errors", () => {
       assert.equal(error.cause, err);
     });
   });
+
+  describe("isFatalError", () => {
+    it("should return true for authentication and not found errors", () => {
+      for (const status of [401, 403, 404]) {
+        const error = new ProviderError("Fatal error");
+        error.status = status;
+
+        assert.isTrue(isFatalError(error));
+      }
+    });
+
+    it("should return false for other errors", () => {
+      const error = new ProviderError("Server error");
+      error.status = 500;
+
+      assert.isFalse(isFatalError(error));
+      assert.isFalse(isFatalError(new StandardError("Standard error")));
+    });
+  });
 });
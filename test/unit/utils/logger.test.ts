@@ -0,0 +1,94 @@
+import { beforeEach, describe, it } from "node:test";
+import { assert } from "chai";
+import sinon from "sinon";
+
+import { StructuredLogger } from "../../../src/utils/logger";
+
+const message = {
+  body: { secret: "value" },
+  id: "123",
+  timestamp_ms: 1234567890,
+  attempts: 2,
+  lease_id: "lease-id",
+  metadata: {
+    "CF-sourceMessageSource": "test",
+    "CF-Content-Type": "json" as const,
+  },
+};
+
+describe("StructuredLogger", () => {
+  let target: Record<"debug" | "info" | "warn" | "error", sinon.SinonStub>;
+
+  beforeEach(() => {
+    target = {
+      debug: sinon.stub(),
+      info: sinon.stub(),
+      warn: sinon.stub(),
+      error: sinon.stub(),
+    };
+  });
+
+  it("adds the shared fields to every log", () => {
+    const logger = new StructuredLogger({
+      logger: target,
+      fields: { queueId: "queue-1" },
+    });
+
+    logger.info("starting", { detail: "Starting up" });
+
+    sinon.assert.calledOnceWithExactly(
+      target.info,
+      { queueId: "queue-1", detail: "Starting up" },
+      "starting",
+    );
+  });
+
+  it("logs events with message fields and without the body", () => {
+    const logger = new StructuredLogger({ logger: target });
+
+    logger.event("message_received", [message]);
+
+    sinon.assert.calledOnceWithExactly(
+      target.debug,
+      {
+        event: "message_received",
+        messageId: "123",
+        leaseId: "lease-id",
+        attempt: 2,
+      },
+      "message_received",
+    );
+  });
+
+  it("logs message bodies when redaction is turned off", () => {
+    const logger = new StructuredLogger({
+      logger: target,
+      redactMessageBodies: false,
+    });
+
+    logger.event("message_processed", [message]);
+
+    assert.deepEqual(target.debug.firstCall.args[0].body, message.body);
+  });
+
+  it("logs error events at the error level", () => {
+    const logger = new StructuredLogger({ logger: target });
+    const error = new Error("Failed");
+
+    logger.event("error", [error, [message]]);
+
+    sinon.assert.calledOnceWithExactly(
+      target.error,
+      { event: "error", err: error, messageIds: ["123"] },
+      "error",
+    );
+  });
+
+  it("keeps other arguments as data", () => {
+    const logger = new StructuredLogger({ logger: target });
+
+    logger.event("message_retried", [message, 30]);
+
+    assert.equal(target.debug.firstCall.args[0].data, 30);
+  });
+});
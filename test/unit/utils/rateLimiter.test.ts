@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { assert } from "chai";
+import * as sinon from "sinon";
+
+import {
+  RateLimiter,
+  getRateLimiter,
+  sharedRateLimiter,
+} from "../../../src/utils/rateLimiter";
+
+describe("RateLimiter", () => {
+  let clock: sinon.SinonFakeTimers;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+    limiter = new RateLimiter("account", {
+      requestsPerSecond: 2,
+      burst: 4,
+      reservedTokens: 1,
+    });
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  function track(promise: Promise<void>, order: string[], name: string) {
+    return promise.then(() => {
+      order.push(name);
+    });
+  }
+
+  it("lets a burst through and then waits for the bucket to refill", async () => {
+    const order: string[] = [];
+
+    await Promise.all([1, 2, 3, 4].map(() => limiter.acquire()));
+    const waiting = track(limiter.acquire(), order, "fifth");
+
+    await clock.tickAsync(499);
+    assert.deepEqual(order, []);
+    assert.equal(limiter.state.waiting.high, 1);
+
+    await clock.tickAsync(1);
+    await waiting;
+
+    assert.deepEqual(order, ["fifth"]);
+    assert.equal(limiter.state.throttledRequests, 1);
+  });
+
+  it("keeps the reserved tokens for high priority requests", async () => {
+    const order: string[] = [];
+
+    await Promise.all([1, 2, 3].map(() => limiter.acquire("low")));
+    const low = track(limiter.acquire("low"), order, "low");
+    await clock.tickAsync(0);
+
+    assert.deepEqual(order, []);
+    assert.equal(limiter.state.tokens, 1);
+
+    await limiter.acquire("high");
+    const high = track(limiter.acquire("high"), order, "high");
+
+    await clock.tickAsync(500);
+    assert.deepEqual(order, ["high"]);
+
+    await clock.tickAsync(1000);
+    await Promise.all([low, high]);
+
+    assert.deepEqual(order, ["high", "low"]);
+  });
+
+  it("stops waiting when the signal is aborted", async () => {
+    const controller = new AbortController();
+
+    await Promise.all([1, 2, 3, 4].map(() => limiter.acquire()));
+    const waiting = limiter.acquire("high", controller.signal);
+    controller.abort();
+
+    const err = await waiting.catch((e) => e);
+
+    assert.equal(err.name, "AbortError");
+    assert.equal(limiter.state.waiting.high, 0);
+  });
+
+  it("reports its state", () => {
+    assert.deepEqual(limiter.state, {
+      accountId: "account",
+      tokens: 4,
+      capacity: 4,
+      requestsPerSecond: 2,
+      waiting: { high: 0, low: 0 },
+      throttledRequests: 0,
+    });
+  });
+
+  it("shares one rate limiter for each account", () => {
+    const shared = sharedRateLimiter("shared-account", { burst: 10 });
+
+    assert.strictEqual(sharedRateLimiter("shared-account"), shared);
+    assert.strictEqual(getRateLimiter("shared-account"), shared);
+    assert.equal(shared.state.capacity, 10);
+    assert.isUndefined(getRateLimiter("other-account"));
+  });
+
+  it("throws when the shared rate limiter exists with different options", () => {
+    const shared = sharedRateLimiter("configured-account", {
+      requestsPerSecond: 2,
+    });
+
+    assert.strictEqual(
+      sharedRateLimiter("configured-account", {
+        requestsPerSecond: 2,
+        burst: 20,
+      }),
+      shared,
+    );
+    assert.throws(
+      () => sharedRateLimiter("configured-account", { requestsPerSecond: 4 }),
+      "The rate limiter of account configured-account already exists with different options.",
+    );
+  });
+});